@@ -0,0 +1,188 @@
+import type { ReactNode } from "react";
+import { format } from "date-fns";
+import { Microscope } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { ProgressLog, type PhaseRanges } from "@/components/progress-log";
+import type { AgentAnalysisResult, AgentRole, ProgressEvent } from "@shared/schema";
+
+export const AGENT_ANALYZE_PHASES: PhaseRanges = {
+  files: [5, 30],
+  ai: [30, 35],
+  tokens: [35, 95],
+  done: [100, 100],
+};
+
+interface AgentAnalysisSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  role: AgentRole | null;
+  // This agent's deep dives, newest first
+  analyses: AgentAnalysisResult[];
+  running: boolean;
+  // Another agent's deep dive is in progress
+  runDisabled: boolean;
+  progressEvents: ProgressEvent[];
+  onRun: () => void;
+  onCancel: () => void;
+}
+
+function severityVariant(severity: string) {
+  return severity === "critical" ? "destructive" : severity === "medium" ? "secondary" : "outline";
+}
+
+function ratingVariant(rating: string) {
+  if (rating === "strong" || rating === "faithful") return "default";
+  if (rating === "weak" || rating === "divergent" || rating === "missing") return "destructive";
+  return "outline";
+}
+
+function Section({ title, count, children }: { title: string; count?: number; children: ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="flex items-center gap-2 text-sm font-semibold">
+        {title}
+        {count !== undefined && <Badge variant="secondary" className="text-[10px]">{count}</Badge>}
+      </h4>
+      {count === 0 ? <p className="text-xs text-muted-foreground">None found</p> : children}
+    </div>
+  );
+}
+
+function Findings({ items }: { items: string[] }) {
+  return (
+    <ul className="space-y-1 list-disc pl-4 text-xs text-muted-foreground">
+      {items.map((item, i) => <li key={i}>{item}</li>)}
+    </ul>
+  );
+}
+
+export function AgentAnalysisSheet({ open, onOpenChange, role, analyses, running, runDisabled, progressEvents, onRun, onCancel }: AgentAnalysisSheetProps) {
+  if (!role) return null;
+
+  const latest = analyses[0] ?? null;
+  const analysis = latest?.details.analysis ?? null;
+  const previous = analyses[1] ?? null;
+  const scoreDelta = latest?.score != null && previous?.score != null ? latest.score - previous.score : null;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-xl flex flex-col">
+        <SheetHeader className="shrink-0 mb-2 pr-8">
+          <SheetTitle className="flex items-center gap-2 flex-wrap">
+            {role.name} Deep Dive
+            {latest?.score != null && (
+              <Badge variant="outline" className="text-[10px]" data-testid="badge-agent-health">
+                Health {latest.score}
+              </Badge>
+            )}
+            {scoreDelta !== null && scoreDelta !== 0 && (
+              <Badge variant={scoreDelta < 0 ? "destructive" : "secondary"} className="text-[10px]">
+                {scoreDelta > 0 ? "+" : ""}{scoreDelta}
+              </Badge>
+            )}
+          </SheetTitle>
+          <SheetDescription className="text-xs">
+            {latest
+              ? `${format(new Date(latest.createdAt), "MMM d, yyyy h:mmaaa")} · ${latest.details.eventsAnalyzed} commits and PRs, ${latest.details.filesRead.length} files read`
+              : "Reviews this agent's prompts, status, progress log, recent plans and attributed commits and PRs."}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          <div className="space-y-6 pb-6" data-testid="agent-analysis">
+            {running ? (
+              <ProgressLog events={progressEvents} phases={AGENT_ANALYZE_PHASES} onCancel={onCancel} />
+            ) : (
+              <Button size="sm" onClick={onRun} disabled={runDisabled} data-testid="button-run-agent-analysis">
+                <Microscope className="w-4 h-4" />
+                {latest ? "Analyze Again" : "Analyze Agent"}
+              </Button>
+            )}
+
+            {latest && !analysis && (
+              <p className="text-xs text-muted-foreground">This run has no structured analysis.</p>
+            )}
+
+            {analysis && (
+              <>
+                <p className="text-sm leading-relaxed" data-testid="text-agent-analysis-summary">{analysis.summary}</p>
+
+                <Section title="Plan quality">
+                  <Badge variant={ratingVariant(analysis.planQuality.rating)} className="text-[10px]">{analysis.planQuality.rating}</Badge>
+                  <Findings items={analysis.planQuality.findings} />
+                </Section>
+
+                <Section title="Execution fidelity">
+                  <Badge variant={ratingVariant(analysis.executionFidelity.rating)} className="text-[10px]">{analysis.executionFidelity.rating}</Badge>
+                  <Findings items={analysis.executionFidelity.findings} />
+                </Section>
+
+                <Section title="Scope drift" count={analysis.scopeDrift.length}>
+                  <div className="space-y-1.5">
+                    {analysis.scopeDrift.map((d, i) => (
+                      <div key={i} className="text-xs p-2 rounded border border-border/50 bg-muted/40 space-y-0.5">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={severityVariant(d.severity)} className="text-[9px] h-4 px-1">{d.severity}</Badge>
+                          <span className="font-medium">{d.description}</span>
+                        </div>
+                        <p className="text-muted-foreground">{d.evidence}</p>
+                      </div>
+                    ))}
+                  </div>
+                </Section>
+
+                <Section title="Stuck signals" count={analysis.stuckSignals.length}>
+                  <div className="space-y-1.5">
+                    {analysis.stuckSignals.map((s, i) => (
+                      <div key={i} className="text-xs p-2 rounded border border-border/50 bg-muted/40 space-y-0.5">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={severityVariant(s.severity)} className="text-[9px] h-4 px-1">{s.severity}</Badge>
+                          <span className="font-medium">{s.signal}</span>
+                        </div>
+                        <p className="text-muted-foreground">{s.evidence}</p>
+                      </div>
+                    ))}
+                  </div>
+                </Section>
+
+                <Section title="Recommended prompt edits" count={analysis.recommendedPromptEdits.length}>
+                  <div className="space-y-1.5">
+                    {analysis.recommendedPromptEdits.map((edit, i) => (
+                      <div key={i} className="text-xs p-2 rounded border border-blue-500/20 bg-blue-500/5 space-y-0.5">
+                        <code className="text-[11px] text-muted-foreground break-all">{edit.file}</code>
+                        <p className="font-medium">{edit.change}</p>
+                        <p className="text-muted-foreground">{edit.reason}</p>
+                      </div>
+                    ))}
+                  </div>
+                </Section>
+              </>
+            )}
+
+            {analyses.length > 1 && (
+              <Section title="Earlier runs" count={analyses.length - 1}>
+                <ul className="space-y-1">
+                  {analyses.slice(1).map((a) => (
+                    <li key={a.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <span>{format(new Date(a.createdAt), "MMM d, yyyy h:mmaaa")}</span>
+                      {a.score != null && <Badge variant="outline" className="text-[9px] h-4 px-1">{a.score}</Badge>}
+                    </li>
+                  ))}
+                </ul>
+              </Section>
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
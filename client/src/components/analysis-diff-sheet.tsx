@@ -0,0 +1,187 @@
+import type { ReactNode } from "react";
+import { format } from "date-fns";
+import { ArrowRight, Minus, Plus, Equal } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { diffAnalyses } from "@/lib/analysis-diff";
+import { describePromptTemplate } from "@shared/prompt-template";
+import type { AiAnalysisResult } from "@shared/schema";
+
+interface AnalysisDiffSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  analyses: [AiAnalysisResult, AiAnalysisResult] | null;
+}
+
+function severityVariant(severity: string) {
+  return severity === "critical" ? "destructive" : severity === "medium" ? "secondary" : "outline";
+}
+
+function Section({ title, count, children }: { title: string; count: number; children: ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="flex items-center gap-2 text-sm font-semibold">
+        {title}
+        <Badge variant="secondary" className="text-[10px]">{count}</Badge>
+      </h4>
+      {count > 0 ? children : <p className="text-xs text-muted-foreground">No changes</p>}
+    </div>
+  );
+}
+
+export function AnalysisDiffSheet({ open, onOpenChange, analyses }: AnalysisDiffSheetProps) {
+  if (!analyses) return null;
+
+  const diff = diffAnalyses(analyses[0], analyses[1]);
+  const missingStructure = !diff.before.details.analysis || !diff.after.details.analysis;
+  const beforeTemplate = diff.before.details.promptTemplate;
+  const afterTemplate = diff.after.details.promptTemplate;
+  const templateChanged = !!beforeTemplate && !!afterTemplate
+    && (beforeTemplate.source !== afterTemplate.source || beforeTemplate.version !== afterTemplate.version);
+  const frictionCount = diff.friction.added.length + diff.friction.resolved.length + diff.friction.persisting.length;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-xl flex flex-col">
+        <SheetHeader className="shrink-0 mb-2">
+          <SheetTitle>Compare Analyses</SheetTitle>
+          <SheetDescription>
+            {format(new Date(diff.before.createdAt), "MMM d, yyyy h:mmaaa")} → {format(new Date(diff.after.createdAt), "MMM d, yyyy h:mmaaa")}
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          <div className="space-y-6 pb-6" data-testid="analysis-diff">
+            <div className="flex items-center gap-3 text-sm">
+              <span className="text-muted-foreground">Score</span>
+              <span className="font-medium">{diff.before.score ?? "—"}</span>
+              <ArrowRight className="w-3.5 h-3.5 text-muted-foreground" />
+              <span className="font-medium">{diff.after.score ?? "—"}</span>
+              {diff.scoreDelta !== null && (
+                <Badge
+                  variant={diff.scoreDelta < 0 ? "destructive" : "secondary"}
+                  className="text-[10px]"
+                  data-testid="badge-score-delta"
+                >
+                  {diff.scoreDelta > 0 ? "+" : ""}{diff.scoreDelta}
+                </Badge>
+              )}
+            </div>
+
+            {templateChanged && (
+              <p className="text-xs text-muted-foreground" data-testid="text-prompt-template-changed">
+                The prompt changed between these runs ({describePromptTemplate(beforeTemplate!)} → {describePromptTemplate(afterTemplate!)}),
+                so some differences may come from the prompt rather than the repository.
+              </p>
+            )}
+
+            {missingStructure && (
+              <p className="text-xs text-muted-foreground">
+                One of these runs has no structured analysis; only the score can be compared.
+              </p>
+            )}
+
+            <Section title="Friction" count={frictionCount}>
+              <div className="space-y-1.5">
+                {diff.friction.added.map((f, i) => (
+                  <div key={`a${i}`} className="flex items-start gap-2 text-xs p-2 rounded border border-red-500/20 bg-red-500/5">
+                    <Plus className="w-3.5 h-3.5 text-red-500 shrink-0 mt-0.5" />
+                    <div className="min-w-0 space-y-0.5">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={severityVariant(f.severity)} className="text-[9px] h-4 px-1">{f.severity}</Badge>
+                        <span className="font-medium">{f.component}</span>
+                      </div>
+                      <p className="text-muted-foreground">{f.issue}</p>
+                    </div>
+                  </div>
+                ))}
+                {diff.friction.resolved.map((f, i) => (
+                  <div key={`r${i}`} className="flex items-start gap-2 text-xs p-2 rounded border border-emerald-500/20 bg-emerald-500/5">
+                    <Minus className="w-3.5 h-3.5 text-emerald-500 shrink-0 mt-0.5" />
+                    <div className="min-w-0 space-y-0.5">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium line-through decoration-muted-foreground/60">{f.component}</span>
+                        <span className="text-emerald-600 dark:text-emerald-400">resolved</span>
+                      </div>
+                      <p className="text-muted-foreground">{f.issue}</p>
+                    </div>
+                  </div>
+                ))}
+                {diff.friction.persisting.map(({ before, after, severityChanged }, i) => (
+                  <div key={`p${i}`} className="flex items-start gap-2 text-xs p-2 rounded border border-border/50 bg-muted/40">
+                    <Equal className="w-3.5 h-3.5 text-muted-foreground shrink-0 mt-0.5" />
+                    <div className="min-w-0 space-y-0.5">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        {severityChanged && (
+                          <>
+                            <Badge variant={severityVariant(before.severity)} className="text-[9px] h-4 px-1">{before.severity}</Badge>
+                            <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                          </>
+                        )}
+                        <Badge variant={severityVariant(after.severity)} className="text-[9px] h-4 px-1">{after.severity}</Badge>
+                        <span className="font-medium">{after.component}</span>
+                        <span className="text-muted-foreground">persisting</span>
+                      </div>
+                      <p className="text-muted-foreground">{after.issue}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Section>
+
+            <Section title="Agent states" count={diff.agentTransitions.length}>
+              <div className="space-y-1.5">
+                {diff.agentTransitions.map((t) => (
+                  <div key={t.agentName} className="text-xs p-2 rounded border border-border/50 bg-muted/40 space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{t.agentName}</span>
+                      <Badge variant="outline" className="text-[9px] h-4 px-1">{t.before ?? "absent"}</Badge>
+                      <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                      <Badge variant="secondary" className="text-[9px] h-4 px-1">{t.after ?? "absent"}</Badge>
+                    </div>
+                    {t.afterTask && <p className="text-muted-foreground truncate" title={t.afterTask}>{t.afterTask}</p>}
+                  </div>
+                ))}
+              </div>
+              {diff.unchangedAgents > 0 && (
+                <p className="text-[11px] text-muted-foreground">{diff.unchangedAgents} agent{diff.unchangedAgents === 1 ? "" : "s"} unchanged</p>
+              )}
+            </Section>
+
+            <Section title="Orchestrator actions" count={diff.actions.added.length + diff.actions.removed.length}>
+              <div className="space-y-1.5">
+                {diff.actions.added.map((x, i) => (
+                  <div key={`a${i}`} className="flex items-start gap-2 text-xs p-2 rounded border border-blue-500/20 bg-blue-500/5">
+                    <Plus className="w-3.5 h-3.5 text-blue-500 shrink-0 mt-0.5" />
+                    <div className="min-w-0 space-y-0.5">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{x.action}</span>
+                        <Badge variant={x.urgency === "do-now" ? "default" : "outline"} className="text-[9px] h-4 px-1">{x.urgency}</Badge>
+                      </div>
+                      <p className="text-muted-foreground">{x.reason}</p>
+                    </div>
+                  </div>
+                ))}
+                {diff.actions.removed.map((x, i) => (
+                  <div key={`r${i}`} className="flex items-start gap-2 text-xs p-2 rounded border border-border/50 bg-muted/40">
+                    <Minus className="w-3.5 h-3.5 text-muted-foreground shrink-0 mt-0.5" />
+                    <span className="text-muted-foreground line-through decoration-muted-foreground/60">{x.action}</span>
+                  </div>
+                ))}
+              </div>
+              {diff.actions.kept > 0 && (
+                <p className="text-[11px] text-muted-foreground">{diff.actions.kept} action{diff.actions.kept === 1 ? "" : "s"} still recommended</p>
+              )}
+            </Section>
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
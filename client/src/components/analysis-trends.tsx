@@ -0,0 +1,109 @@
+import { format } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { AnalysisTrendPoint } from "@/lib/trends";
+
+interface AnalysisTrendsProps {
+  points: AnalysisTrendPoint[];
+  selectedId?: string | null;
+  onSelect: (analysisId: string) => void;
+}
+
+const scoreConfig = {
+  score: { label: "Gravity score", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const velocityConfig = {
+  commits: { label: "Commits / 7d", color: "hsl(var(--chart-2))" },
+  prs: { label: "PRs / 7d", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const frictionConfig = {
+  frictionLow: { label: "Low", color: "hsl(var(--chart-3))" },
+  frictionMedium: { label: "Medium", color: "hsl(var(--chart-4))" },
+  frictionCritical: { label: "Critical", color: "hsl(var(--chart-5))" },
+  violations: { label: "Boundary violations", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+// Recharts reports the hovered row on click; map it back to the analysis
+function handleChartClick(onSelect: (id: string) => void) {
+  return (state: any) => {
+    const point: AnalysisTrendPoint | undefined = state?.activePayload?.[0]?.payload;
+    if (point) onSelect(point.analysisId);
+  };
+}
+
+export function AnalysisTrends({ points, selectedId, onSelect }: AnalysisTrendsProps) {
+  if (points.length < 2) return null;
+
+  const data = points.map((p) => ({ ...p, label: format(new Date(p.createdAt), "MMM d HH:mm") }));
+  const onClick = handleChartClick(onSelect);
+  const selectedLabel = data.find((p) => p.analysisId === selectedId)?.label;
+
+  const axes = (
+    <>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+    </>
+  );
+
+  return (
+    <Card data-testid="card-analysis-trends">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Trends</CardTitle>
+        <CardDescription>
+          {points.length} runs{selectedLabel ? ` · selected ${selectedLabel}` : ""} · Click a point to open that run
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Gravity score</p>
+          <ChartContainer config={scoreConfig} className="aspect-auto h-[180px] w-full">
+            <LineChart data={data} onClick={onClick} margin={{ left: -20, right: 8 }}>
+              {axes}
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="score" type="monotone" stroke="var(--color-score)" strokeWidth={2} dot={{ r: 3 }} activeDot={{ r: 5 }} connectNulls />
+            </LineChart>
+          </ChartContainer>
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Velocity</p>
+          <ChartContainer config={velocityConfig} className="aspect-auto h-[180px] w-full">
+            <LineChart data={data} onClick={onClick} margin={{ left: -20, right: 8 }}>
+              {axes}
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="commits" type="monotone" stroke="var(--color-commits)" strokeWidth={2} dot={{ r: 3 }} />
+              <Line dataKey="prs" type="monotone" stroke="var(--color-prs)" strokeWidth={2} dot={{ r: 3 }} />
+            </LineChart>
+          </ChartContainer>
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Friction &amp; violations</p>
+          <ChartContainer config={frictionConfig} className="aspect-auto h-[180px] w-full">
+            <BarChart data={data} onClick={onClick} margin={{ left: -20, right: 8 }}>
+              {axes}
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="frictionLow" stackId="friction" fill="var(--color-frictionLow)" />
+              <Bar dataKey="frictionMedium" stackId="friction" fill="var(--color-frictionMedium)" />
+              <Bar dataKey="frictionCritical" stackId="friction" fill="var(--color-frictionCritical)" radius={[3, 3, 0, 0]} />
+              <Bar dataKey="violations" fill="var(--color-violations)" radius={[3, 3, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+import { ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { BoundaryViolation } from "@shared/boundaries";
+import { repoLinks, type LinkableRepository, type RepoLinks } from "@shared/repo-links";
+
+interface BoundaryViolationListProps {
+  violations: BoundaryViolation[];
+  repo: LinkableRepository;
+  // Hide the agent name, e.g. when listed on that agent's own card
+  showAgent?: boolean;
+  limit?: number;
+}
+
+function violationUrl(violation: BoundaryViolation, links: RepoLinks): string | null {
+  if (violation.sha) return links.commit(violation.sha);
+  if (violation.prNumber != null) return links.pullRequest(violation.prNumber);
+  return null;
+}
+
+export function BoundaryViolationList({ violations, repo, showAgent = true, limit = 10 }: BoundaryViolationListProps) {
+  if (violations.length === 0) return null;
+  const links = repoLinks(repo);
+
+  return (
+    <div className="space-y-1.5" data-testid="boundary-violation-list">
+      {violations.slice(0, limit).map((violation, i) => {
+        const url = violationUrl(violation, links);
+        const ref = violation.sha ? violation.sha.slice(0, 7) : violation.prNumber != null ? `#${violation.prNumber}` : null;
+        return (
+          <div key={i} className="flex flex-col gap-1 text-xs bg-destructive/5 p-2 rounded border border-destructive/20">
+            <div className="flex items-center gap-2 flex-wrap">
+              {showAgent && <span className="font-semibold text-destructive">{violation.agentName}</span>}
+              <Badge variant={violation.kind === "forbidden" ? "destructive" : "outline"} className="text-[9px] h-4 px-1">
+                {violation.kind === "forbidden" ? "forbidden" : `owned by ${violation.ownerName}`}
+              </Badge>
+              <span className="font-mono text-foreground/90 truncate" title={violation.path}>{violation.path}</span>
+            </div>
+            <div className="flex items-center gap-2 text-[10px] text-muted-foreground min-w-0">
+              {ref && (url ? (
+                <a href={url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 font-mono hover:text-foreground hover:underline shrink-0">
+                  <ExternalLink className="w-3 h-3" />
+                  {ref}
+                </a>
+              ) : <span className="font-mono shrink-0">{ref}</span>)}
+              <span className="truncate" title={violation.rule.source}>Rule: {violation.rule.source}</span>
+            </div>
+          </div>
+        );
+      })}
+      {violations.length > limit && (
+        <p className="text-[11px] text-muted-foreground">+{violations.length - limit} more</p>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { format } from "date-fns";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { FileText, Loader2, ExternalLink, ArrowLeft } from "lucide-react";
+import { FileText, Loader2, ExternalLink, ArrowLeft, GitCommit } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Sheet,
@@ -12,16 +13,64 @@ import {
 } from "@/components/ui/sheet";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LineDiffView } from "@/components/line-diff-view";
+import { RefSelect } from "@/components/ref-select";
 import { apiRequest } from "@/lib/queryClient";
+import { sourceParams } from "@/lib/repo-source";
+import { hostLabel, repoLinks } from "@shared/repo-links";
+import type { NewActivityEvent, RefList, Repository } from "@shared/schema";
+
+// An analysis shown against the file's history
+export interface AnalysisRun {
+  id: string;
+  createdAt: string;
+  score: number | null;
+  // "Gravity" for repository analyses, "Health" for agent deep dives
+  label: string;
+}
+
+// Stands for the empty file before the first commit
+const NO_VERSION = "none";
+
+function shortSha(sha: string | null): string {
+  return sha ? sha.slice(0, 7) : "";
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : null;
+}
+
+// Runs made while the version from commits[index] was the latest one
+function runsDuring(runs: AnalysisRun[], commits: NewActivityEvent[], index: number): AnalysisRun[] {
+  const start = new Date(commits[index].createdAt).getTime();
+  const end = index > 0 ? new Date(commits[index - 1].createdAt).getTime() : Infinity;
+  return runs.filter((r) => {
+    const t = new Date(r.createdAt).getTime();
+    return t >= start && t < end;
+  });
+}
 
 interface FileContentSheetProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   filePath: string | null;
   fileType: string | null;
-  repoOwner: string;
-  repoName: string;
+  repo: Pick<Repository, "owner" | "name" | "provider" | "localPath" | "webUrl">;
+  // Where the file is read until another branch or tag is picked
   repoBranch: string;
+  // Branches and tags to pick from; no picker without onLoadRefs
+  refs?: RefList | null;
+  onLoadRefs?: () => void;
+  // Analyses to place between the file's versions in history mode
+  analysisRuns?: AnalysisRun[];
   onBack?: () => void;
 }
 
@@ -30,14 +79,47 @@ export function FileContentSheet({
   onOpenChange,
   filePath,
   fileType,
-  repoOwner,
-  repoName,
+  repo,
   repoBranch,
+  refs = null,
+  onLoadRefs,
+  analysisRuns = [],
   onBack,
 }: FileContentSheetProps) {
+  const [ref, setRef] = useState(repoBranch);
   const [content, setContent] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<"content" | "history">("content");
+  const [commits, setCommits] = useState<NewActivityEvent[] | null>(null);
+  const [historyPage, setHistoryPage] = useState(0);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [fromSha, setFromSha] = useState<string>(NO_VERSION);
+  const [toSha, setToSha] = useState<string | null>(null);
+  const [diffTexts, setDiffTexts] = useState<{ before: string; after: string } | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  // File contents by commit SHA; versions never change
+  const versionsRef = useRef(new Map<string, string>());
+
+  // Each file starts on its current content at repoBranch
+  useEffect(() => {
+    setRef(repoBranch);
+    setMode("content");
+  }, [filePath, repoBranch]);
+
+  // History is loaded on demand, again after picking another ref
+  useEffect(() => {
+    setCommits(null);
+    setHistoryPage(0);
+    setHasMoreHistory(false);
+    setHistoryError(null);
+    setFromSha(NO_VERSION);
+    setToSha(null);
+    setDiffTexts(null);
+    versionsRef.current = new Map();
+  }, [filePath, repo.owner, repo.name, ref]);
 
   // Fetch content when the sheet opens with a file path
   useEffect(() => {
@@ -50,10 +132,9 @@ export function FileContentSheet({
     (async () => {
       try {
         const res = await apiRequest("POST", "/api/github/file-content", {
-          owner: repoOwner,
-          name: repoName,
+          ...sourceParams(repo),
           path: filePath,
-          branch: repoBranch,
+          branch: ref,
         });
         const data = await res.json();
         if (!cancelled) setContent(data.content);
@@ -65,7 +146,70 @@ export function FileContentSheet({
     })();
 
     return () => { cancelled = true; };
-  }, [open, filePath, repoOwner, repoName, repoBranch]);
+  }, [open, filePath, repo.owner, repo.name, repo.provider, repo.localPath, ref]);
+
+  const loadHistory = async (page: number) => {
+    if (!filePath) return;
+    setHistoryLoading(true);
+    setHistoryError(null);
+    try {
+      const res = await apiRequest("POST", "/api/github/file-history", {
+        ...sourceParams(repo),
+        path: filePath,
+        branch: ref,
+        page,
+      });
+      const data: { commits: NewActivityEvent[]; hasMore: boolean } = await res.json();
+      const all = [...(page > 1 ? commits ?? [] : []), ...data.commits];
+      setCommits(all);
+      setHistoryPage(page);
+      setHasMoreHistory(data.hasMore);
+      if (page === 1 && all.length > 0) {
+        setToSha(all[0].sha);
+        setFromSha(all[1]?.sha ?? NO_VERSION);
+      }
+    } catch (e: any) {
+      setHistoryError(e.message || "Failed to fetch file history");
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open && mode === "history" && commits === null && !historyLoading) loadHistory(1);
+  }, [open, mode, commits]);
+
+  const readVersion = async (sha: string): Promise<string> => {
+    if (sha === NO_VERSION) return "";
+    const cached = versionsRef.current.get(sha);
+    if (cached !== undefined) return cached;
+    const res = await apiRequest("POST", "/api/github/file-content", {
+      ...sourceParams(repo),
+      path: filePath,
+      branch: sha,
+    });
+    const data = await res.json();
+    versionsRef.current.set(sha, data.content);
+    return data.content;
+  };
+
+  useEffect(() => {
+    if (!toSha) return;
+    let cancelled = false;
+    setDiffLoading(true);
+    setHistoryError(null);
+    Promise.all([readVersion(fromSha), readVersion(toSha)])
+      .then(([before, after]) => {
+        if (!cancelled) setDiffTexts({ before, after });
+      })
+      .catch((e: any) => {
+        if (!cancelled) setHistoryError(e.message || "Failed to fetch file version");
+      })
+      .finally(() => {
+        if (!cancelled) setDiffLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [fromSha, toSha]);
 
   const handleOpenChange = (isOpen: boolean) => {
     if (!isOpen) {
@@ -76,7 +220,120 @@ export function FileContentSheet({
   };
 
   const fileName = filePath?.split("/").pop() || filePath || "";
-  const githubUrl = `https://github.com/${repoOwner}/${repoName}/blob/${repoBranch}/${filePath}`;
+  const links = repoLinks(repo);
+  const refKind = refs?.branches.includes(ref) ? "branch" : refs?.tags.includes(ref) ? "tag" : undefined;
+  const fileUrl = filePath ? links.file(ref, filePath, refKind) : null;
+
+  const versionLabel = (c: NewActivityEvent) => `${shortSha(c.sha)} · ${format(new Date(c.createdAt), "MMM d, yyyy")} · ${c.title}`;
+
+  const history = commits && (
+    <div className="space-y-4 pb-8" data-testid="file-history">
+      {commits.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">No commits touched this file on {ref}.</p>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 flex-wrap">
+            <Select value={fromSha} onValueChange={setFromSha}>
+              <SelectTrigger className="h-8 text-xs flex-1 min-w-[180px]" data-testid="select-diff-from">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {commits.map((c) => (
+                  <SelectItem key={c.sha} value={c.sha!} className="text-xs">{versionLabel(c)}</SelectItem>
+                ))}
+                {!hasMoreHistory && <SelectItem value={NO_VERSION} className="text-xs">Empty (before the first commit)</SelectItem>}
+              </SelectContent>
+            </Select>
+            <span className="text-xs text-muted-foreground">→</span>
+            <Select value={toSha ?? undefined} onValueChange={setToSha}>
+              <SelectTrigger className="h-8 text-xs flex-1 min-w-[180px]" data-testid="select-diff-to">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {commits.map((c) => (
+                  <SelectItem key={c.sha} value={c.sha!} className="text-xs">{versionLabel(c)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {diffLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : diffTexts && (
+            <LineDiffView before={diffTexts.before} after={diffTexts.after} />
+          )}
+
+          <div className="space-y-1.5">
+            <h4 className="text-sm font-semibold">Commits</h4>
+            {commits.map((c, i) => {
+              const runs = runsDuring(analysisRuns, commits, i);
+              const older = i + 1 < commits.length ? runsDuring(analysisRuns, commits, i + 1) : [];
+              const labels = Array.from(new Set(runs.map((r) => r.label)));
+              const commitUrl = c.sha ? links.commit(c.sha) : null;
+              return (
+                <div key={c.sha} className="p-2 rounded border border-border/50 bg-muted/40 text-xs space-y-1" data-testid={`file-commit-${shortSha(c.sha)}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate" title={c.title}>{c.title}</p>
+                      <p className="text-muted-foreground">
+                        {commitUrl ? (
+                          <a href={commitUrl} target="_blank" rel="noopener noreferrer" className="font-mono hover:underline">{shortSha(c.sha)}</a>
+                        ) : (
+                          <span className="font-mono">{shortSha(c.sha)}</span>
+                        )}
+                        {" · "}{format(new Date(c.createdAt), "MMM d, yyyy h:mmaaa")}{c.author ? ` · ${c.author}` : ""}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-[11px] shrink-0"
+                      onClick={() => {
+                        setToSha(c.sha);
+                        setFromSha(commits[i + 1]?.sha ?? NO_VERSION);
+                      }}
+                      disabled={i + 1 >= commits.length && hasMoreHistory}
+                    >
+                      <GitCommit className="w-3 h-3" />
+                      Changes
+                    </Button>
+                  </div>
+                  {runs.length > 0 && (
+                    <p className="text-muted-foreground" data-testid={`file-commit-runs-${shortSha(c.sha)}`}>
+                      {runs.length} analysis run{runs.length === 1 ? "" : "s"} on this version:{" "}
+                      {labels.map((label) => {
+                        const avg = mean(runs.filter((r) => r.label === label && r.score != null).map((r) => r.score!));
+                        const before = mean(older.filter((r) => r.label === label && r.score != null).map((r) => r.score!));
+                        const delta = avg !== null && before !== null ? avg - before : null;
+                        return (
+                          <span key={label} className="mr-2">
+                            {label} avg {avg ?? "—"}
+                            {delta !== null && delta !== 0 && (
+                              <span className={delta > 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400"}>
+                                {" "}({delta > 0 ? "+" : ""}{delta} vs previous version)
+                              </span>
+                            )}
+                          </span>
+                        );
+                      })}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+            {hasMoreHistory && (
+              <Button variant="ghost" size="sm" onClick={() => loadHistory(historyPage + 1)} disabled={historyLoading} data-testid="button-more-history">
+                {historyLoading && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                Load older commits
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
 
   return (
     <Sheet open={open} onOpenChange={handleOpenChange}>
@@ -104,19 +361,50 @@ export function FileContentSheet({
           </div>
           <SheetDescription className="flex items-center gap-2 text-xs">
             <span className="truncate">{filePath}</span>
-            <a
-              href={githubUrl}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="inline-flex items-center gap-1 text-primary hover:underline shrink-0"
-            >
-              <ExternalLink className="w-3 h-3" />
-              GitHub
-            </a>
+            {fileUrl && (
+              <a
+                href={fileUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-primary hover:underline shrink-0"
+              >
+                <ExternalLink className="w-3 h-3" />
+                {hostLabel(repo)}
+              </a>
+            )}
           </SheetDescription>
+          {filePath && (
+            <div className="flex items-center gap-2 flex-wrap pt-2">
+              <Tabs value={mode} onValueChange={(v) => setMode(v as "content" | "history")}>
+                <TabsList className="h-8">
+                  <TabsTrigger value="content" className="text-xs" data-testid="tab-file-content">Content</TabsTrigger>
+                  <TabsTrigger value="history" className="text-xs" data-testid="tab-file-history">History</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {onLoadRefs && (
+                <RefSelect value={ref} onValueChange={setRef} refs={refs} onLoadRefs={onLoadRefs} className="h-8 w-[170px] text-xs" testId="select-file-ref" />
+              )}
+            </div>
+          )}
         </SheetHeader>
 
         <ScrollArea className="flex-1 mt-4 -mx-6 px-6">
+          {mode === "history" ? (
+            <>
+              {historyError && (
+                <div className="py-4 text-center">
+                  <p className="text-sm text-destructive">{historyError}</p>
+                </div>
+              )}
+              {historyLoading && !commits && (
+                <div className="flex items-center justify-center py-16">
+                  <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              )}
+              {history}
+            </>
+          ) : (
+          <>
           {loading && (
             <div className="flex items-center justify-center py-16">
               <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
@@ -136,6 +424,8 @@ export function FileContentSheet({
               </ReactMarkdown>
             </article>
           )}
+          </>
+          )}
         </ScrollArea>
       </SheetContent>
     </Sheet>
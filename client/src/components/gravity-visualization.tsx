@@ -27,6 +27,16 @@ function getStatusColor(status: string | null): string {
   }
 }
 
+// Recently active agents orbit faster; dormant ones slow down
+function getRecencyFactor(lastActiveAt: string | null): number {
+  if (!lastActiveAt) return 1;
+  const days = (Date.now() - new Date(lastActiveAt).getTime()) / 86400000;
+  if (days <= 1) return 1.6;
+  if (days <= 7) return 1.2;
+  if (days <= 30) return 0.8;
+  return 0.5;
+}
+
 function AgentPlanet({ 
   role, 
   agentState,
@@ -54,6 +64,7 @@ function AgentPlanet({
   const color = useMemo(() => new THREE.Color(colorStr), [colorStr]);
   const isDrifting = actualStatus === "drifting";
   const activityLevel = Math.min((role.prCount ?? 0) + (role.planCount ?? 0), 10);
+  const recency = getRecencyFactor(role.lastActiveAt);
   
   // SCALE INCREASED 2x: Much larger orbits so they are not clustered
   const radiusVariations = [60, 45, 75, 55, 40, 70]; 
@@ -66,7 +77,7 @@ function AgentPlanet({
   const inclination = inclinationVariations[index % inclinationVariations.length];
   
   const basePlanetSize = isDrifting ? 1.0 : 1.5 + activityLevel * 0.3;
-  const speed = (isDrifting ? 0.4 : 1) * direction * (15 / durationVariations[index % durationVariations.length]);
+  const speed = (isDrifting ? 0.4 : recency) * direction * (15 / durationVariations[index % durationVariations.length]);
   
   const [hovered, setHovered] = useState(false);
   
@@ -0,0 +1,209 @@
+import { useState, useEffect } from "react";
+import { fromZodError } from "zod-validation-error";
+import { Loader2, Eye, RotateCcw, Save, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { sourceParams } from "@/lib/repo-source";
+import { DEFAULT_LAYOUT, LAYOUT_FILE_PATH } from "@shared/layout";
+import { layoutConfigSchema, type LayoutConfig, type LayoutRule, type Repository } from "@shared/schema";
+
+interface RulePreview {
+  index: number;
+  rule: LayoutRule;
+  total: number;
+  agents: string[];
+  sample: { path: string; agentName: string }[];
+}
+
+interface LayoutPreview {
+  source: "repository" | "user" | "default";
+  committedLayout: LayoutConfig | null;
+  rules: RulePreview[];
+  totalFiles: number;
+  totalMatched: number;
+}
+
+interface LayoutRulesSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  repo: Repository;
+  // Branch or tag the next scan reads
+  branch: string;
+  onSave: (layout: LayoutConfig | null) => Promise<void>;
+}
+
+function toJson(layout: LayoutConfig): string {
+  return JSON.stringify(layout, null, 2);
+}
+
+export function LayoutRulesSheet({ open, onOpenChange, repo, branch, onSave }: LayoutRulesSheetProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState("");
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<LayoutPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(toJson(repo.layoutConfig ?? DEFAULT_LAYOUT));
+    setParseError(null);
+    setPreview(null);
+  }, [open, repo.layoutConfig]);
+
+  const parseDraft = (): LayoutConfig | null => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(draft);
+    } catch (e: any) {
+      setParseError(`Invalid JSON: ${e.message}`);
+      return null;
+    }
+    const parsed = layoutConfigSchema.safeParse(raw);
+    if (!parsed.success) {
+      setParseError(fromZodError(parsed.error).message);
+      return null;
+    }
+    setParseError(null);
+    return parsed.data;
+  };
+
+  const handlePreview = async () => {
+    const layout = parseDraft();
+    if (!layout) return;
+    setPreviewing(true);
+    try {
+      const res = await apiRequest("POST", "/api/github/layout-preview", {
+        ...sourceParams(repo),
+        defaultBranch: repo.defaultBranch,
+        branch,
+        layout,
+      });
+      setPreview(await res.json());
+    } catch (error: any) {
+      toast({ title: "Preview failed", description: error.message, variant: "destructive" });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const layout = parseDraft();
+    if (!layout) return;
+    setSaving(true);
+    try {
+      await onSave(layout);
+      toast({ title: "Layout rules saved", description: "Rescan the repository to apply them." });
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setSaving(true);
+    try {
+      await onSave(null);
+      setDraft(toJson(DEFAULT_LAYOUT));
+      setPreview(null);
+      toast({ title: "Layout rules reset to defaults" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl lg:max-w-3xl overflow-hidden flex flex-col">
+        <SheetHeader className="shrink-0 pr-8">
+          <SheetTitle>Agent Layout Rules</SheetTitle>
+          <SheetDescription className="text-xs">
+            Map repository paths to agent files. A committed <code>{LAYOUT_FILE_PATH}</code> takes
+            precedence over the rules saved here.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 mt-4 -mx-6 px-6">
+          <div className="space-y-4 pb-8">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              spellCheck={false}
+              className="font-mono text-xs min-h-[280px]"
+              data-testid="textarea-layout-rules"
+            />
+            {parseError && (
+              <p className="text-xs text-destructive" data-testid="text-layout-error">{parseError}</p>
+            )}
+
+            <div className="flex items-center gap-2 flex-wrap">
+              <Button variant="outline" size="sm" onClick={handlePreview} disabled={previewing} data-testid="button-preview-layout">
+                {previewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+                Preview Matches
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={saving} data-testid="button-save-layout">
+                <Save className="w-4 h-4" />
+                Save
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleReset} disabled={saving} data-testid="button-reset-layout">
+                <RotateCcw className="w-4 h-4" />
+                Reset to Defaults
+              </Button>
+            </div>
+
+            {preview && (
+              <div className="space-y-3" data-testid="layout-preview">
+                {preview.committedLayout && (
+                  <div className="flex items-start gap-2 text-xs bg-amber-500/10 border border-amber-500/30 rounded p-2.5 text-amber-600 dark:text-amber-400">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <span>
+                      This repository commits its own <code>{LAYOUT_FILE_PATH}</code>; scans will use it instead of these rules.
+                    </span>
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {preview.totalMatched} of {preview.totalFiles} files matched
+                </p>
+                {preview.rules.map((r) => (
+                  <div key={r.index} className="rounded border border-border/50 bg-muted/30 p-2.5 space-y-1.5">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium">{r.rule.label || r.rule.pattern}</span>
+                      <Badge variant="outline" className="text-[10px]">{r.rule.fileType}</Badge>
+                      <Badge variant={r.total > 0 ? "secondary" : "outline"} className="text-[10px]">
+                        {r.total} match{r.total === 1 ? "" : "es"}
+                      </Badge>
+                    </div>
+                    {r.agents.length > 0 && (
+                      <p className="text-[11px] text-muted-foreground">Agents: {r.agents.join(", ")}</p>
+                    )}
+                    {r.sample.length > 0 && (
+                      <ul className="text-[11px] font-mono text-muted-foreground space-y-0.5">
+                        {r.sample.map((m) => (
+                          <li key={m.path} className="truncate" title={m.path}>
+                            {m.path} <span className="opacity-60">→ {m.agentName}</span>
+                          </li>
+                        ))}
+                        {r.total > r.sample.length && <li className="opacity-60">…and {r.total - r.sample.length} more</li>}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,53 @@
+import { useMemo } from "react";
+import { countChanges, diffHunks, diffLines } from "@shared/line-diff";
+
+interface LineDiffViewProps {
+  before: string;
+  after: string;
+}
+
+const LINE_STYLES = {
+  same: "text-muted-foreground",
+  added: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-300",
+  removed: "bg-red-500/10 text-red-700 dark:text-red-300",
+} as const;
+
+const MARKERS = { same: " ", added: "+", removed: "-" } as const;
+
+export function LineDiffView({ before, after }: LineDiffViewProps) {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const hunks = useMemo(() => diffHunks(lines), [lines]);
+  const { added, removed } = countChanges(lines);
+
+  if (hunks.length === 0) {
+    return <p className="text-xs text-muted-foreground py-4" data-testid="text-diff-identical">The two versions are identical.</p>;
+  }
+
+  return (
+    <div className="space-y-2" data-testid="line-diff">
+      <p className="text-xs text-muted-foreground">
+        <span className="text-emerald-600 dark:text-emerald-400">+{added}</span>{" "}
+        <span className="text-red-600 dark:text-red-400">-{removed}</span> lines
+      </p>
+      <div className="rounded-md border overflow-x-auto font-mono text-[11px] leading-5">
+        {hunks.map((hunk, h) => (
+          <div key={h}>
+            {hunk.skippedBefore > 0 && (
+              <div className="px-2 bg-muted/60 text-muted-foreground border-y first:border-t-0">
+                ⋯ {hunk.skippedBefore} unchanged line{hunk.skippedBefore === 1 ? "" : "s"}
+              </div>
+            )}
+            {hunk.lines.map((line, i) => (
+              <div key={i} className={`flex whitespace-pre ${LINE_STYLES[line.kind]}`}>
+                <span className="w-10 shrink-0 text-right pr-2 select-none opacity-60">{line.oldLine ?? ""}</span>
+                <span className="w-10 shrink-0 text-right pr-2 select-none opacity-60">{line.newLine ?? ""}</span>
+                <span className="w-4 shrink-0 select-none">{MARKERS[line.kind]}</span>
+                <span className="pr-4">{line.text}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
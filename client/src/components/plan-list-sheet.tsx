@@ -2,19 +2,29 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from "
 import { FileText, ChevronRight, GitPullRequest, ExternalLink } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { formatCycleTime } from "@/lib/metrics";
+import type { PlanExecution, PlanState } from "@/lib/plan-execution";
 import type { AgentFile, ActivityEvent } from "@shared/schema";
+import { repoLinks, type LinkableRepository } from "@shared/repo-links";
 
 interface PlanListSheetProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  files: AgentFile[] | null;
+  plans: PlanExecution[] | null;
   prEvents?: ActivityEvent[];
-  repoOwner?: string;
-  repoName?: string;
+  repo?: LinkableRepository;
   onSelectFile: (file: AgentFile) => void;
   roleName?: string;
 }
 
+const STATE_LABELS: Record<PlanState, { label: string; color: string }> = {
+  pending: { label: "Pending", color: "bg-gray-500/20 text-gray-400 border-gray-500/30" },
+  "in-progress": { label: "In progress", color: "bg-blue-500/20 text-blue-400 border-blue-500/30" },
+  merged: { label: "Merged", color: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30" },
+  abandoned: { label: "Abandoned", color: "bg-red-500/20 text-red-400 border-red-500/30" },
+};
+
 function formatPlanTitle(path: string) {
   const fileName = path.split("/").pop() || path;
   const nameWithoutExt = fileName.replace(/\.md$/, "");
@@ -28,14 +38,16 @@ function formatPlanTitle(path: string) {
     .join(" ");
 }
 
-export function PlanListSheet({ open, onOpenChange, files, prEvents = [], repoOwner, repoName, onSelectFile, roleName }: PlanListSheetProps) {
-  if (!files) return null;
+export function PlanListSheet({ open, onOpenChange, plans, prEvents = [], repo, onSelectFile, roleName }: PlanListSheetProps) {
+  if (!plans) return null;
 
   const hasPrs = prEvents.length > 0;
+  const links = repo ? repoLinks(repo) : null;
+  const executed = plans.filter((p) => p.state === "merged").length;
 
-  const sortedFiles = [...files].sort((a, b) => {
-    const dateA = a.date ? new Date(a.date).getTime() : 0;
-    const dateB = b.date ? new Date(b.date).getTime() : 0;
+  const sortedPlans = [...plans].sort((a, b) => {
+    const dateA = a.writtenAt ? new Date(a.writtenAt).getTime() : 0;
+    const dateB = b.writtenAt ? new Date(b.writtenAt).getTime() : 0;
     return dateB - dateA;
   });
 
@@ -45,28 +57,56 @@ export function PlanListSheet({ open, onOpenChange, files, prEvents = [], repoOw
 
   const filesList = (
     <>
-      {sortedFiles.map((file, i) => (
-        <button
-          key={i}
-          onClick={() => {
-            onSelectFile(file);
-          }}
-          className="w-full flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-accent hover:text-accent-foreground transition-colors text-left group"
-        >
+      {sortedPlans.map((plan) => {
+        const state = STATE_LABELS[plan.state];
+        const body = (
           <div className="flex items-start gap-3 overflow-hidden min-w-0">
             <FileText className="w-4 h-4 text-muted-foreground shrink-0 mt-0.5" />
-            <div className="min-w-0">
-              <p className="text-sm font-medium truncate group-hover:underline">
-                {formatPlanTitle(file.path)}
+            <div className="min-w-0 space-y-1">
+              <p className={`text-sm font-medium truncate ${plan.file ? "group-hover:underline" : ""}`}>
+                {formatPlanTitle(plan.path)}
               </p>
-              <p className="text-xs text-muted-foreground truncate opacity-80 mt-0.5">
-                {file.path.split("/").pop()}
+              <p className="text-xs text-muted-foreground truncate opacity-80">
+                {plan.path.split("/").pop()}
+                {!plan.file && " · no longer in the tree"}
               </p>
+              <div className="flex items-center gap-1.5 flex-wrap text-[11px] text-muted-foreground" data-testid={`plan-state-${plan.path}`}>
+                <span className={`inline-flex items-center px-1.5 py-0.5 rounded border text-[10px] font-medium ${state.color}`}>
+                  {state.label}
+                </span>
+                {plan.timeToExecutionHours !== null && (
+                  <span>executed in {formatCycleTime(plan.timeToExecutionHours)}</span>
+                )}
+                {plan.links.map(({ pr, reason }) => (
+                  <Badge key={pr.id} variant="outline" className="text-[10px] h-4 px-1 font-normal" title={reason}>
+                    #{pr.prNumber}
+                  </Badge>
+                ))}
+              </div>
             </div>
           </div>
-          <ChevronRight className="w-4 h-4 text-muted-foreground shrink-0 ml-3 opacity-50 group-hover:opacity-100 transition-opacity" />
-        </button>
-      ))}
+        );
+        if (!plan.file) {
+          return (
+            <div key={plan.path} className="w-full flex items-center p-3 rounded-lg border bg-card/50 text-left">
+              {body}
+            </div>
+          );
+        }
+        const file = plan.file;
+        return (
+          <button
+            key={plan.path}
+            onClick={() => {
+              onSelectFile(file);
+            }}
+            className="w-full flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-accent hover:text-accent-foreground transition-colors text-left group"
+          >
+            {body}
+            <ChevronRight className="w-4 h-4 text-muted-foreground shrink-0 ml-3 opacity-50 group-hover:opacity-100 transition-opacity" />
+          </button>
+        );
+      })}
     </>
   );
 
@@ -76,7 +116,7 @@ export function PlanListSheet({ open, onOpenChange, files, prEvents = [], repoOw
         <SheetHeader className="shrink-0 mb-2">
           <SheetTitle>Activity {roleName ? `for ${roleName}` : ""}</SheetTitle>
           <SheetDescription>
-            {files.length} plan{files.length === 1 ? "" : "s"}
+            {plans.length} plan{plans.length === 1 ? "" : "s"}, {executed} executed
             {hasPrs ? ` · ${prEvents.length} pull request${prEvents.length === 1 ? "" : "s"}` : ""}
           </SheetDescription>
         </SheetHeader>
@@ -98,7 +138,7 @@ export function PlanListSheet({ open, onOpenChange, files, prEvents = [], repoOw
                 {sortedPrs.map((pr) => (
                   <a
                     key={pr.id}
-                    href={`https://github.com/${repoOwner}/${repoName}/pull/${pr.prNumber}`}
+                    href={(pr.prNumber != null && links?.pullRequest(pr.prNumber)) || undefined}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="w-full flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-accent hover:text-accent-foreground transition-colors text-left group"
@@ -0,0 +1,61 @@
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { ProgressEvent } from "@shared/schema";
+
+// Maps each phase to the slice of the overall bar it fills, in percent
+export type PhaseRanges = Record<string, [number, number]>;
+
+interface ProgressLogProps {
+  events: ProgressEvent[];
+  phases: PhaseRanges;
+  onCancel?: () => void;
+  maxLines?: number;
+  className?: string;
+}
+
+export function progressPercent(events: ProgressEvent[], phases: PhaseRanges): number {
+  const latest = events[events.length - 1];
+  if (!latest) return 0;
+  const [start, end] = phases[latest.phase] ?? [0, 0];
+  const fraction = latest.total ? Math.min((latest.current ?? 0) / latest.total, 1) : 0;
+  return Math.round(start + (end - start) * fraction);
+}
+
+export function ProgressLog({ events, phases, onCancel, maxLines = 6, className = "" }: ProgressLogProps) {
+  const latest = events[events.length - 1];
+  const percent = progressPercent(events, phases);
+
+  // Collapse consecutive updates of the same phase into their latest message
+  const lines = events.reduce<ProgressEvent[]>((acc, event) => {
+    if (acc.length > 0 && acc[acc.length - 1].phase === event.phase) acc[acc.length - 1] = event;
+    else acc.push(event);
+    return acc;
+  }, []);
+
+  return (
+    <div className={`w-full space-y-3 ${className}`} data-testid="progress-log">
+      <div className="flex items-center gap-3">
+        <Progress value={percent} className="h-2 flex-1" />
+        <span className="text-xs tabular-nums text-muted-foreground w-10 text-right">{percent}%</span>
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} className="h-7 px-2" data-testid="button-cancel-progress">
+            <X className="w-3.5 h-3.5" />
+            Cancel
+          </Button>
+        )}
+      </div>
+      <div className="flex items-center gap-2 text-sm font-medium text-primary">
+        <Loader2 className="w-4 h-4 animate-spin shrink-0" />
+        <span className="truncate">{latest?.message ?? "Starting..."}</span>
+      </div>
+      {lines.length > 1 && (
+        <ul className="space-y-0.5 text-[11px] font-mono text-muted-foreground">
+          {lines.slice(-maxLines - 1, -1).map((event, i) => (
+            <li key={i} className="truncate">✓ {event.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
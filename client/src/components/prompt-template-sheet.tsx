@@ -0,0 +1,134 @@
+import { useState, useEffect } from "react";
+import { fromZodError } from "zod-validation-error";
+import { RotateCcw, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_PROMPT_TEMPLATE, PROMPT_VARIABLES, describePromptTemplate, unknownPromptVariables } from "@shared/prompt-template";
+import { promptTemplateSchema, type PromptTemplate, type Repository } from "@shared/schema";
+
+interface PromptTemplateSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  repo: Repository;
+  onSave: (template: PromptTemplate | null) => Promise<void>;
+}
+
+export function PromptTemplateSheet({ open, onOpenChange, repo, onSave }: PromptTemplateSheetProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const current = repo.promptTemplate ?? DEFAULT_PROMPT_TEMPLATE;
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(current.content);
+    setError(null);
+  }, [open, current.content]);
+
+  const handleSave = async () => {
+    if (draft.trim() === current.content.trim()) {
+      onOpenChange(false);
+      return;
+    }
+    // Each save is a new revision, so runs before and after it can be told apart
+    const parsed = promptTemplateSchema.safeParse({ version: (repo.promptTemplate?.version ?? 0) + 1, content: draft });
+    if (!parsed.success) {
+      setError(fromZodError(parsed.error).message);
+      return;
+    }
+    const unknown = unknownPromptVariables(parsed.data.content);
+    if (unknown.length > 0) {
+      setError(`Unknown variables: ${unknown.map((v) => `{{${v}}}`).join(", ")}`);
+      return;
+    }
+    setError(null);
+    setSaving(true);
+    try {
+      await onSave(parsed.data);
+      toast({ title: "Prompt template saved", description: `Version ${parsed.data.version} is used from the next analysis.` });
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setSaving(true);
+    try {
+      await onSave(null);
+      setDraft(DEFAULT_PROMPT_TEMPLATE.content);
+      setError(null);
+      toast({ title: "Prompt template reset to the built-in default" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl lg:max-w-3xl overflow-hidden flex flex-col">
+        <SheetHeader className="shrink-0 pr-8">
+          <SheetTitle className="flex items-center gap-2 flex-wrap">
+            Analysis Prompt
+            <Badge variant="outline" className="text-[10px]" data-testid="badge-prompt-template">
+              {describePromptTemplate({ source: repo.promptTemplate ? "repository" : "default", version: current.version })}
+            </Badge>
+          </SheetTitle>
+          <SheetDescription className="text-xs">
+            The prompt sent to the AI provider for this repository. Variables in <code>{"{{double braces}}"}</code> are
+            filled in from the fetched activity and the scanned agents.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 mt-4 -mx-6 px-6">
+          <div className="space-y-4 pb-8">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              spellCheck={false}
+              className="font-mono text-xs min-h-[360px]"
+              data-testid="textarea-prompt-template"
+            />
+            {error && (
+              <p className="text-xs text-destructive" data-testid="text-prompt-template-error">{error}</p>
+            )}
+
+            <div className="flex items-center gap-2 flex-wrap">
+              <Button size="sm" onClick={handleSave} disabled={saving} data-testid="button-save-prompt-template">
+                <Save className="w-4 h-4" />
+                Save
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleReset} disabled={saving || !repo.promptTemplate} data-testid="button-reset-prompt-template">
+                <RotateCcw className="w-4 h-4" />
+                Reset to Default
+              </Button>
+            </div>
+
+            <div className="space-y-1.5" data-testid="prompt-template-variables">
+              <h4 className="text-sm font-semibold">Variables</h4>
+              <ul className="space-y-1">
+                {Object.entries(PROMPT_VARIABLES).map(([name, description]) => (
+                  <li key={name} className="text-xs text-muted-foreground">
+                    <code className="bg-muted px-1 py-0.5 rounded text-foreground">{`{{${name}}}`}</code> {description}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
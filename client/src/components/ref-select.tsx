@@ -0,0 +1,68 @@
+import { GitBranch, Loader2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { RefList } from "@shared/schema";
+
+interface RefSelectProps {
+  value: string;
+  onValueChange: (ref: string) => void;
+  // Null until loaded; loading starts when the list is first opened
+  refs: RefList | null;
+  onLoadRefs: () => void;
+  disabled?: boolean;
+  className?: string;
+  testId?: string;
+}
+
+export function RefSelect({ value, onValueChange, refs, onLoadRefs, disabled, className, testId }: RefSelectProps) {
+  // Keep the current value selectable when it is not (yet) in the list
+  const known = !!refs && (refs.branches.includes(value) || refs.tags.includes(value));
+
+  return (
+    <Select
+      value={value}
+      onValueChange={onValueChange}
+      onOpenChange={(open) => {
+        if (open && !refs) onLoadRefs();
+      }}
+      disabled={disabled}
+    >
+      <SelectTrigger className={className ?? "h-9 w-[180px]"} data-testid={testId}>
+        <GitBranch className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {!known && <SelectItem value={value}>{value}</SelectItem>}
+        {!refs && (
+          <div className="flex items-center gap-2 px-2 py-1.5 text-xs text-muted-foreground">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Loading branches and tags
+          </div>
+        )}
+        {refs && refs.branches.length > 0 && (
+          <SelectGroup>
+            <SelectLabel className="text-xs">Branches</SelectLabel>
+            {refs.branches.map((ref) => (
+              <SelectItem key={`branch-${ref}`} value={ref}>{ref}</SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+        {refs && refs.tags.length > 0 && (
+          <SelectGroup>
+            <SelectLabel className="text-xs">Tags</SelectLabel>
+            {refs.tags.filter((ref) => !refs.branches.includes(ref)).map((ref) => (
+              <SelectItem key={`tag-${ref}`} value={ref}>{ref}</SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
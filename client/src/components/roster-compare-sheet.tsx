@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { ArrowRight, ChevronDown, ChevronRight, GitCompare, Loader2, Minus, Plus } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { LineDiffView } from "@/components/line-diff-view";
+import { RefSelect } from "@/components/ref-select";
+import { apiRequest } from "@/lib/queryClient";
+import { sourceParams } from "@/lib/repo-source";
+import type { RefList, Repository, RosterComparison, RosterFileChange } from "@shared/schema";
+
+interface RosterCompareSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  repo: Repository;
+  refs: RefList | null;
+  onLoadRefs: () => void;
+  // Preselected head, usually the ref the roster was scanned at
+  defaultHead: string;
+}
+
+const CHANGE_STYLES: Record<RosterFileChange["change"], string> = {
+  added: "bg-emerald-500/15 text-emerald-600 dark:text-emerald-400 border-emerald-500/30",
+  removed: "bg-red-500/15 text-red-600 dark:text-red-400 border-red-500/30",
+  modified: "bg-amber-500/15 text-amber-600 dark:text-amber-400 border-amber-500/30",
+};
+
+function FileChange({ file }: { file: RosterFileChange }) {
+  const [expanded, setExpanded] = useState(false);
+  return (
+    <div className="space-y-2">
+      <button
+        className="flex items-center gap-2 w-full text-left text-xs hover:opacity-80"
+        onClick={() => setExpanded(!expanded)}
+        data-testid={`button-roster-file-${file.path}`}
+      >
+        {expanded ? <ChevronDown className="w-3.5 h-3.5 shrink-0" /> : <ChevronRight className="w-3.5 h-3.5 shrink-0" />}
+        <span className="font-mono truncate flex-1" title={file.path}>{file.path}</span>
+        <Badge variant="outline" className={`text-[9px] h-4 px-1 ${CHANGE_STYLES[file.change]}`}>{file.change}</Badge>
+      </button>
+      {expanded && <LineDiffView before={file.before ?? ""} after={file.after ?? ""} />}
+    </div>
+  );
+}
+
+export function RosterCompareSheet({ open, onOpenChange, repo, refs, onLoadRefs, defaultHead }: RosterCompareSheetProps) {
+  const [base, setBase] = useState(repo.defaultBranch || "main");
+  const [head, setHead] = useState(defaultHead);
+  const [comparison, setComparison] = useState<RosterComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) setHead((current) => current || defaultHead);
+  }, [open, defaultHead]);
+
+  const handleCompare = async () => {
+    setComparing(true);
+    setError(null);
+    try {
+      const res = await apiRequest("POST", "/api/github/compare-rosters", {
+        ...sourceParams(repo),
+        base,
+        head,
+        layout: repo.layoutConfig ?? undefined,
+      });
+      setComparison(await res.json());
+    } catch (e: any) {
+      setError(e.message || "Failed to compare agent rosters");
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const unchanged = comparison
+    && comparison.rolesAdded.length === 0
+    && comparison.rolesRemoved.length === 0
+    && comparison.rolesChanged.length === 0;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl flex flex-col">
+        <SheetHeader className="shrink-0 mb-2">
+          <SheetTitle>Compare Branches</SheetTitle>
+          <SheetDescription>
+            Agent roles, prompt files and boundaries from one branch or tag to another
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center gap-2 flex-wrap shrink-0">
+          <RefSelect value={base} onValueChange={setBase} refs={refs} onLoadRefs={onLoadRefs} className="h-8 w-[170px] text-xs" testId="select-compare-base" />
+          <ArrowRight className="w-3.5 h-3.5 text-muted-foreground" />
+          <RefSelect value={head} onValueChange={setHead} refs={refs} onLoadRefs={onLoadRefs} className="h-8 w-[170px] text-xs" testId="select-compare-head" />
+          <Button size="sm" onClick={handleCompare} disabled={comparing || !head || base === head} data-testid="button-compare-rosters">
+            {comparing ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <GitCompare className="w-3.5 h-3.5" />}
+            Compare
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1 mt-4 -mx-6 px-6">
+          <div className="space-y-6 pb-6" data-testid="roster-comparison">
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            {unchanged && (
+              <p className="text-sm text-muted-foreground">
+                The agent rosters of {comparison.base} and {comparison.head} are the same.
+              </p>
+            )}
+            {comparison && !unchanged && (
+              <>
+                {(comparison.rolesAdded.length > 0 || comparison.rolesRemoved.length > 0) && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-semibold">Roles</h4>
+                    <div className="flex flex-wrap gap-1.5">
+                      {comparison.rolesAdded.map((name) => (
+                        <Badge key={`a-${name}`} variant="outline" className={CHANGE_STYLES.added} data-testid={`badge-role-added-${name}`}>
+                          <Plus className="w-3 h-3" />
+                          {name}
+                        </Badge>
+                      ))}
+                      {comparison.rolesRemoved.map((name) => (
+                        <Badge key={`r-${name}`} variant="outline" className={CHANGE_STYLES.removed} data-testid={`badge-role-removed-${name}`}>
+                          <Minus className="w-3 h-3" />
+                          {name}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {comparison.rolesChanged.map((role) => (
+                  <div key={role.name} className="space-y-3 p-3 rounded border border-border/50" data-testid={`roster-role-${role.name}`}>
+                    <h4 className="text-sm font-semibold">{role.name}</h4>
+                    {(role.boundariesAdded.length > 0 || role.boundariesRemoved.length > 0) && (
+                      <div className="space-y-1 text-xs">
+                        <p className="font-medium text-muted-foreground">Boundaries</p>
+                        {role.boundariesAdded.map((b, i) => (
+                          <p key={`a${i}`} className="flex items-start gap-1.5 text-emerald-600 dark:text-emerald-400">
+                            <Plus className="w-3 h-3 shrink-0 mt-0.5" />
+                            {b}
+                          </p>
+                        ))}
+                        {role.boundariesRemoved.map((b, i) => (
+                          <p key={`r${i}`} className="flex items-start gap-1.5 text-red-600 dark:text-red-400">
+                            <Minus className="w-3 h-3 shrink-0 mt-0.5" />
+                            {b}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                    {role.files.length > 0 && (
+                      <div className="space-y-2">
+                        <p className="text-xs font-medium text-muted-foreground">Prompt files</p>
+                        {role.files.map((file) => <FileChange key={file.path} file={file} />)}
+                      </div>
+                    )}
+                  </div>
+                ))}
+
+                {comparison.rolesUnchanged.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Unchanged: {comparison.rolesUnchanged.join(", ")}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,69 @@
+import { ExternalLink, Repeat } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { ThrashingEvidence, ThrashingFinding } from "@/lib/thrashing";
+import { repoLinks, type LinkableRepository, type RepoLinks } from "@shared/repo-links";
+
+interface ThrashingFindingsProps {
+  findings: ThrashingFinding[];
+  repo: LinkableRepository;
+  limit?: number;
+}
+
+const KIND_LABELS: Record<ThrashingFinding["kind"], string> = {
+  "file-churn": "File churn",
+  "revert": "Revert",
+  "redone-pr": "Redone PR",
+  "plan-rewrite": "Plan rewrite",
+};
+
+function evidenceUrl(evidence: ThrashingEvidence, links: RepoLinks): string | null {
+  if (evidence.prNumber != null) return links.pullRequest(evidence.prNumber);
+  if (evidence.sha) return links.commit(evidence.sha);
+  return null;
+}
+
+export function ThrashingFindings({ findings, repo, limit = 8 }: ThrashingFindingsProps) {
+  if (findings.length === 0) return null;
+  const links = repoLinks(repo);
+
+  return (
+    <div className="space-y-3" data-testid="thrashing-findings">
+      <h4 className="flex items-center gap-2 font-semibold text-sm">
+        <Repeat className="w-4 h-4 text-orange-500" /> Detected Thrashing
+        <span className="text-[10px] font-normal text-muted-foreground">from commit history</span>
+      </h4>
+      <div className="space-y-2">
+        {findings.slice(0, limit).map((finding, i) => (
+          <div key={i} className="flex flex-col gap-1.5 text-sm bg-muted/50 p-2.5 rounded border border-border/50">
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge variant={finding.severity === "critical" ? "destructive" : finding.severity === "medium" ? "secondary" : "outline"} className="text-[10px]">
+                {finding.severity}
+              </Badge>
+              <Badge variant="outline" className="text-[10px]">{KIND_LABELS[finding.kind]}</Badge>
+              <span className="font-medium text-foreground truncate" title={finding.component}>{finding.component}</span>
+            </div>
+            <span className="text-muted-foreground text-xs leading-relaxed">{finding.issue}</span>
+            <ul className="space-y-0.5">
+              {finding.evidence.map((evidence, j) => {
+                const url = evidenceUrl(evidence, links);
+                return (
+                  <li key={j} className="text-[11px] font-mono text-muted-foreground truncate">
+                    {url ? (
+                      <a href={url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 hover:text-foreground hover:underline">
+                        <ExternalLink className="w-3 h-3 shrink-0" />
+                        {evidence.label}
+                      </a>
+                    ) : evidence.label}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+        {findings.length > limit && (
+          <p className="text-[11px] text-muted-foreground">+{findings.length - limit} more</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import type { AiAnalysisResult, HighFidelityAnalysis } from "@shared/schema";
+
+type Friction = HighFidelityAnalysis["frictionAndThrashing"][number];
+type Action = HighFidelityAnalysis["orchestratorActions"][number];
+type AgentStatus = HighFidelityAnalysis["agentStates"][number]["currentStatus"];
+
+export interface FrictionChange {
+  before: Friction;
+  after: Friction;
+  severityChanged: boolean;
+}
+
+export interface AgentStateTransition {
+  agentName: string;
+  // Null when the agent is missing from that run
+  before: AgentStatus | null;
+  after: AgentStatus | null;
+  beforeTask: string | null;
+  afterTask: string | null;
+}
+
+export interface AnalysisDiff {
+  before: AiAnalysisResult;
+  after: AiAnalysisResult;
+  scoreDelta: number | null;
+  friction: {
+    added: Friction[];
+    resolved: Friction[];
+    persisting: FrictionChange[];
+  };
+  // Only agents whose status changed, appeared or disappeared
+  agentTransitions: AgentStateTransition[];
+  unchangedAgents: number;
+  actions: {
+    added: Action[];
+    removed: Action[];
+    kept: number;
+  };
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[`'"]/g, "").replace(/\s+/g, " ").trim();
+}
+
+function indexBy<T>(items: T[], key: (item: T) => string): Map<string, T> {
+  const map = new Map<string, T>();
+  for (const item of items) {
+    const k = key(item);
+    if (!map.has(k)) map.set(k, item);
+  }
+  return map;
+}
+
+/**
+ * Compares two analysis runs, ordered oldest to newest. Friction items are
+ * matched by component, agents by name and actions by their text.
+ */
+export function diffAnalyses(a: AiAnalysisResult, b: AiAnalysisResult): AnalysisDiff {
+  const [before, after] = new Date(a.createdAt).getTime() <= new Date(b.createdAt).getTime() ? [a, b] : [b, a];
+  const old = before.details.analysis;
+  const cur = after.details.analysis;
+
+  const oldFriction = indexBy(old?.frictionAndThrashing ?? [], (f) => normalize(f.component));
+  const curFriction = indexBy(cur?.frictionAndThrashing ?? [], (f) => normalize(f.component));
+  const persisting: FrictionChange[] = [];
+  for (const [key, item] of Array.from(curFriction)) {
+    const prev = oldFriction.get(key);
+    if (prev) persisting.push({ before: prev, after: item, severityChanged: prev.severity !== item.severity });
+  }
+
+  const oldAgents = indexBy(old?.agentStates ?? [], (s) => normalize(s.agentName));
+  const curAgents = indexBy(cur?.agentStates ?? [], (s) => normalize(s.agentName));
+  const agentKeys = Array.from(new Set([...Array.from(oldAgents.keys()), ...Array.from(curAgents.keys())]));
+  const agentTransitions: AgentStateTransition[] = [];
+  let unchangedAgents = 0;
+  for (const key of agentKeys) {
+    const prev = oldAgents.get(key);
+    const next = curAgents.get(key);
+    if (prev && next && prev.currentStatus === next.currentStatus) {
+      unchangedAgents++;
+      continue;
+    }
+    agentTransitions.push({
+      agentName: (next ?? prev)!.agentName,
+      before: prev?.currentStatus ?? null,
+      after: next?.currentStatus ?? null,
+      beforeTask: prev?.recentTask ?? null,
+      afterTask: next?.recentTask ?? null,
+    });
+  }
+
+  const oldActions = indexBy(old?.orchestratorActions ?? [], (x) => normalize(x.action));
+  const curActions = indexBy(cur?.orchestratorActions ?? [], (x) => normalize(x.action));
+
+  return {
+    before,
+    after,
+    scoreDelta: before.score !== null && after.score !== null ? after.score - before.score : null,
+    friction: {
+      added: Array.from(curFriction).filter(([key]) => !oldFriction.has(key)).map(([, f]) => f),
+      resolved: Array.from(oldFriction).filter(([key]) => !curFriction.has(key)).map(([, f]) => f),
+      persisting,
+    },
+    agentTransitions: agentTransitions.sort((x, y) => x.agentName.localeCompare(y.agentName)),
+    unchangedAgents,
+    actions: {
+      added: Array.from(curActions).filter(([key]) => !oldActions.has(key)).map(([, x]) => x),
+      removed: Array.from(oldActions).filter(([key]) => !curActions.has(key)).map(([, x]) => x),
+      kept: Array.from(curActions.keys()).filter((key) => oldActions.has(key)).length,
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import {
+  AGENT_ANALYSIS_DETAILS_VERSION,
+  ANALYSIS_DETAILS_VERSION,
+  agentAnalysisSchema,
+  highFidelityAnalysisSchema,
+  type AgentAnalysisDetails,
+  type AiAnalysisDetails,
+  type HighFidelityAnalysis,
+  type PromptTemplateRef,
+} from "@shared/schema";
+
+function parseAnalysis(raw: unknown): HighFidelityAnalysis | null {
+  const parsed = highFidelityAnalysisSchema.safeParse(raw);
+  return parsed.success ? parsed.data : null;
+}
+
+function parseTemplateRef(raw: unknown): PromptTemplateRef | null {
+  const ref = raw as Partial<PromptTemplateRef> | null | undefined;
+  if ((ref?.source !== "default" && ref?.source !== "repository") || typeof ref.version !== "number") return null;
+  return { source: ref.source, version: ref.version };
+}
+
+function toCount(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Normalizes analysis details from an analyze response or an older stored
+ * record. The structured analysis is validated against the schema; when it is
+ * missing (records saved before it was persisted) it is recovered from the
+ * JSON in `fullResponse`.
+ */
+export function parseAiAnalysisDetails(raw: Record<string, any> | null | undefined): AiAnalysisDetails {
+  const fullResponse = typeof raw?.fullResponse === "string" ? raw.fullResponse : null;
+
+  let analysis = parseAnalysis(raw?.analysis);
+  if (!analysis && fullResponse) {
+    try {
+      analysis = parseAnalysis(JSON.parse(fullResponse));
+    } catch {
+      // Not JSON (e.g. a markdown response from an older version)
+    }
+  }
+
+  return {
+    version: ANALYSIS_DETAILS_VERSION,
+    analysis,
+    fullResponse,
+    commitsAnalyzed: toCount(raw?.commitsAnalyzed),
+    prsAnalyzed: toCount(raw?.prsAnalyzed),
+    promptTemplate: parseTemplateRef(raw?.promptTemplate),
+  };
+}
+
+// Normalizes an analyze-agent response into stored details
+export function parseAgentAnalysisDetails(raw: Record<string, any> | null | undefined): AgentAnalysisDetails {
+  const parsed = agentAnalysisSchema.safeParse(raw?.analysis);
+  return {
+    version: AGENT_ANALYSIS_DETAILS_VERSION,
+    agentName: typeof raw?.agentName === "string" ? raw.agentName : "",
+    analysis: parsed.success ? parsed.data : null,
+    fullResponse: typeof raw?.fullResponse === "string" ? raw.fullResponse : null,
+    eventsAnalyzed: toCount(raw?.eventsAnalyzed) ?? 0,
+    filesRead: Array.isArray(raw?.filesRead) ? raw.filesRead.filter((p: unknown): p is string => typeof p === "string") : [],
+  };
+}
@@ -0,0 +1,120 @@
+import { parseBoundaries, matchesPathPattern } from "@shared/boundaries";
+import type { ActivityEvent, AgentRole } from "@shared/schema";
+
+export interface Attribution {
+  agentRoleId: string;
+  confidence: number;
+  reason: string;
+}
+
+type Signal = { confidence: number; reason: string };
+
+// Below this an event is left unattributed rather than guessed
+const MIN_CONFIDENCE = 0.3;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function mentions(text: string, name: string): boolean {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegex(name.toLowerCase())}([^a-z0-9]|$)`).test(text.toLowerCase());
+}
+
+// The slug of a plan file name, e.g. "2026-10-29-PLAYER-Async-Seek.md" → "player-async-seek"
+export function planSlug(path: string): string {
+  const fileName = path.split("/").pop() || path;
+  return fileName.replace(/\.md$/i, "").replace(/^\d{4}-\d{2}-\d{2}-/, "").toLowerCase();
+}
+
+function scoreRole(event: ActivityEvent, role: AgentRole): Signal | null {
+  const signals: Signal[] = [];
+  const isShared = role.category === "shared";
+  const text = `${event.title}\n${event.description ?? ""}`;
+  const lowerText = text.toLowerCase();
+  const touched = event.files ?? [];
+
+  if (!isShared) {
+    for (const label of event.labels ?? []) {
+      const normalized = label.toLowerCase().replace(/^agent\s*[:/]\s*/, "");
+      if (normalized === role.name.toLowerCase()) {
+        signals.push({ confidence: 0.95, reason: `PR label "${label}"` });
+      }
+    }
+  }
+
+  for (const plan of role.files.filter((f) => f.type === "plan")) {
+    const fileName = plan.path.split("/").pop() || plan.path;
+    const slug = planSlug(plan.path);
+    if (touched.includes(plan.path)) {
+      signals.push({ confidence: 0.9, reason: `Touches plan ${fileName}` });
+    } else if (lowerText.includes(plan.path.toLowerCase()) || (slug.length >= 8 && lowerText.includes(slug))) {
+      signals.push({ confidence: 0.85, reason: `References plan ${fileName}` });
+    }
+  }
+
+  if (touched.length > 0) {
+    const ownFile = role.files.find((f) => f.type !== "plan" && touched.includes(f.path));
+    if (ownFile) {
+      const confidence = ownFile.type === "status" || ownFile.type === "progress" ? 0.9 : 0.6;
+      signals.push({ confidence, reason: `Updates ${ownFile.type} file ${ownFile.path.split("/").pop()}` });
+    }
+
+    const owned = parseBoundaries(role.boundaries).filter((r) => r.kind === "owned").map((r) => r.pattern);
+    if (owned.length > 0) {
+      const inside = touched.filter((p) => owned.some((pattern) => matchesPathPattern(p, pattern)));
+      if (inside.length > 0) {
+        const share = inside.length / touched.length;
+        signals.push({
+          confidence: 0.5 + 0.3 * share,
+          reason: `${inside.length}/${touched.length} touched files within owned paths`,
+        });
+      }
+    }
+  }
+
+  if (!isShared) {
+    if (event.branch && mentions(event.branch.replace(/[/_]/g, "-"), role.name)) {
+      signals.push({ confidence: 0.8, reason: `Branch "${event.branch}"` });
+    }
+    if (mentions(event.title, role.name)) {
+      signals.push({ confidence: 0.45, reason: `Title mentions ${role.name}` });
+    } else if (event.description && mentions(event.description, role.name)) {
+      signals.push({ confidence: 0.3, reason: `Description mentions ${role.name}` });
+    }
+  }
+
+  if (signals.length === 0) return null;
+
+  // Independent signals reinforce each other; the strongest one explains the result
+  signals.sort((a, b) => b.confidence - a.confidence);
+  const combined = 1 - signals.reduce((acc, s) => acc * (1 - s.confidence), 1);
+  const extra = signals.length > 1 ? ` (+${signals.length - 1} more signal${signals.length > 2 ? "s" : ""})` : "";
+  return {
+    confidence: Math.min(Math.round(combined * 100) / 100, 0.99),
+    reason: signals[0].reason + extra,
+  };
+}
+
+export function attributeEvent(event: ActivityEvent, roles: AgentRole[]): Attribution | null {
+  let best: Attribution | null = null;
+  for (const role of roles) {
+    const signal = scoreRole(event, role);
+    if (!signal || signal.confidence < MIN_CONFIDENCE) continue;
+    if (!best || signal.confidence > best.confidence) {
+      best = { agentRoleId: role.id, ...signal };
+    }
+  }
+  return best;
+}
+
+/**
+ * Assigns each activity event to the agent role it most likely belongs to,
+ * keyed by event id. Events without a confident match map to null.
+ */
+export function attributeEvents(events: ActivityEvent[], roles: AgentRole[]): Map<string, Attribution | null> {
+  const result = new Map<string, Attribution | null>();
+  for (const event of events) {
+    result.set(event.id, attributeEvent(event, roles));
+  }
+  return result;
+}
@@ -4,7 +4,12 @@ import type {
   AgentRole,
   AnalysisResult,
   ActivityEvent,
+  AgentMetrics,
+  NewActivityEvent,
+  CachedEnrichment,
 } from "@shared/schema";
+import { parseAiAnalysisDetails } from "./analysis";
+import type { Attribution } from "./attribution";
 
 interface BHADatabase extends DBSchema {
   repositories: {
@@ -26,14 +31,30 @@ interface BHADatabase extends DBSchema {
     value: ActivityEvent;
     indexes: { "by-repo": string };
   };
+  changeDetails: {
+    key: string;
+    value: CachedEnrichment;
+    indexes: { "by-repo": string };
+  };
+}
+
+// Omit that distributes over the AnalysisResult union
+type NewAnalysisResult = AnalysisResult extends infer R
+  ? R extends AnalysisResult ? Omit<R, "id" | "createdAt"> : never
+  : never;
+
+export function activityEventKey(event: Pick<ActivityEvent, "type" | "sha" | "prNumber">): string | null {
+  if (event.type === "commit" && event.sha) return `commit:${event.sha}`;
+  if (event.type === "pull_request" && event.prNumber != null) return `pr:${event.prNumber}`;
+  return null;
 }
 
 let dbPromise: Promise<IDBPDatabase<BHADatabase>> | null = null;
 
 function getDB() {
   if (!dbPromise) {
-    dbPromise = openDB<BHADatabase>("bha-command-center", 2, {
-      upgrade(db, oldVersion) {
+    dbPromise = openDB<BHADatabase>("bha-command-center", 5, {
+      async upgrade(db, oldVersion, _newVersion, transaction) {
         if (oldVersion < 1) {
           db.createObjectStore("repositories", { keyPath: "id" });
 
@@ -54,6 +75,28 @@ function getDB() {
           const rolesStore = db.createObjectStore("agentRoles", { keyPath: "id" });
           rolesStore.createIndex("by-repo", "repositoryId");
         }
+        if (oldVersion >= 1 && oldVersion < 5) {
+          // Backfill versioned details (incl. the structured analysis parsed from fullResponse;
+          // analyses from before version 5 have no recorded prompt template)
+          // Only untyped records and the "ai_analysis" ones every earlier version wrote
+          // are rewritten, never other result types such as agent deep dives
+          let cursor = await transaction.objectStore("analysisResults").openCursor();
+          while (cursor) {
+            const record = cursor.value as Omit<AnalysisResult, "type"> & { type?: string };
+            if (record.type === undefined || record.type === "ai_analysis") {
+              await cursor.update({
+                ...record,
+                type: "ai_analysis",
+                details: parseAiAnalysisDetails(record.details),
+              });
+            }
+            cursor = await cursor.continue();
+          }
+        }
+        if (oldVersion < 4) {
+          const detailsStore = db.createObjectStore("changeDetails", { keyPath: "id" });
+          detailsStore.createIndex("by-repo", "repositoryId");
+        }
       },
     });
   }
@@ -103,10 +146,11 @@ export const db = {
   async deleteRepository(id: string): Promise<void> {
     const database = await getDB();
     await database.delete("repositories", id);
-    const tx = database.transaction(["agentRoles", "analysisResults", "activityEvents"], "readwrite");
+    const tx = database.transaction(["agentRoles", "analysisResults", "activityEvents", "changeDetails"], "readwrite");
     const rolesIndex = tx.objectStore("agentRoles").index("by-repo");
     const analysisIndex = tx.objectStore("analysisResults").index("by-repo");
     const eventsIndex = tx.objectStore("activityEvents").index("by-repo");
+    const detailsIndex = tx.objectStore("changeDetails").index("by-repo");
 
     for (const role of await rolesIndex.getAll(id)) {
       await tx.objectStore("agentRoles").delete(role.id);
@@ -117,6 +161,9 @@ export const db = {
     for (const event of await eventsIndex.getAll(id)) {
       await tx.objectStore("activityEvents").delete(event.id);
     }
+    for (const entry of await detailsIndex.getAll(id)) {
+      await tx.objectStore("changeDetails").delete(entry.id);
+    }
     await tx.done;
   },
 
@@ -126,23 +173,27 @@ export const db = {
     return roles.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   },
 
+  // Roles keep their id across rescans (matched by name) so references to them stay valid
   async setAgentRoles(repositoryId: string, roles: Omit<AgentRole, "id" | "repositoryId" | "createdAt" | "planCount" | "prCount" | "lastActiveAt">[]): Promise<AgentRole[]> {
     const database = await getDB();
     const tx = database.transaction("agentRoles", "readwrite");
     const index = tx.store.index("by-repo");
+    const existingByName = new Map<string, AgentRole>();
     for (const existing of await index.getAll(repositoryId)) {
+      existingByName.set(existing.name, existing);
       await tx.store.delete(existing.id);
     }
     const created: AgentRole[] = [];
     for (const role of roles) {
+      const previous = existingByName.get(role.name);
       const agentRole: AgentRole = {
         ...role,
-        id: generateId(),
+        id: previous?.id ?? generateId(),
         repositoryId,
         planCount: role.files?.filter((f: any) => f.type === "plan").length ?? 0,
-        prCount: null,
-        lastActiveAt: null,
-        createdAt: new Date().toISOString(),
+        prCount: previous?.prCount ?? null,
+        lastActiveAt: previous?.lastActiveAt ?? null,
+        createdAt: previous?.createdAt ?? new Date().toISOString(),
       };
       await tx.store.put(agentRole);
       created.push(agentRole);
@@ -151,21 +202,38 @@ export const db = {
     return created;
   },
 
+  async setAgentMetrics(repositoryId: string, metrics: Map<string, AgentMetrics>): Promise<void> {
+    const database = await getDB();
+    const tx = database.transaction("agentRoles", "readwrite");
+    for (const role of await tx.store.index("by-repo").getAll(repositoryId)) {
+      const m = metrics.get(role.id);
+      if (!m) continue;
+      await tx.store.put({
+        ...role,
+        metrics: m,
+        planCount: m.plansWritten,
+        prCount: m.prCount,
+        lastActiveAt: m.lastActiveAt,
+      });
+    }
+    await tx.done;
+  },
+
   async getAnalysisResults(repositoryId: string): Promise<AnalysisResult[]> {
     const database = await getDB();
     const results = await database.getAllFromIndex("analysisResults", "by-repo", repositoryId);
     return results.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   },
 
-  async createAnalysisResult(data: Omit<AnalysisResult, "id" | "createdAt">): Promise<AnalysisResult> {
+  async createAnalysisResult(data: NewAnalysisResult): Promise<AnalysisResult> {
     const database = await getDB();
-    const result: AnalysisResult = {
+    const result = {
       ...data,
       id: generateId(),
       createdAt: new Date().toISOString(),
     };
-    await database.put("analysisResults", result);
-    return result;
+    await database.put("analysisResults", result as AnalysisResult);
+    return result as AnalysisResult;
   },
 
   async getActivityEvents(repositoryId: string): Promise<ActivityEvent[]> {
@@ -174,26 +242,84 @@ export const db = {
     return events.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   },
 
-  async setActivityEvents(repositoryId: string, events: Omit<ActivityEvent, "id" | "repositoryId" | "agentRoleId">[]): Promise<ActivityEvent[]> {
+  // Inserts new events and merges into known ones (same commit sha or PR number),
+  // keeping their id and attribution. Null incoming fields never overwrite stored values.
+  async upsertActivityEvents(repositoryId: string, events: NewActivityEvent[]): Promise<{ added: number; updated: number }> {
     const database = await getDB();
     const tx = database.transaction("activityEvents", "readwrite");
-    const index = tx.store.index("by-repo");
-    for (const existing of await index.getAll(repositoryId)) {
-      await tx.store.delete(existing.id);
+    const byKey = new Map<string, ActivityEvent>();
+    for (const existing of await tx.store.index("by-repo").getAll(repositoryId)) {
+      const key = activityEventKey(existing);
+      if (key) byKey.set(key, existing);
     }
-    const created: ActivityEvent[] = [];
+    let added = 0;
+    let updated = 0;
     for (const event of events) {
-      const activityEvent: ActivityEvent = {
+      const key = activityEventKey(event);
+      const existing = key ? byKey.get(key) : undefined;
+      if (existing) {
+        // Fields the new copy leaves empty keep their stored value
+        const known: Partial<NewActivityEvent> = Object.fromEntries(
+          Object.entries(event).filter(([, value]) => value !== null && value !== undefined),
+        );
+        const merged: ActivityEvent = { ...existing, ...known };
+        await tx.store.put(merged);
+        updated++;
+      } else {
+        const activityEvent: ActivityEvent = {
+          ...event,
+          id: key ? `${repositoryId}:${key}` : generateId(),
+          repositoryId,
+          agentRoleId: null,
+          createdAt: event.createdAt || new Date().toISOString(),
+        };
+        await tx.store.put(activityEvent);
+        if (key) byKey.set(key, activityEvent);
+        added++;
+      }
+    }
+    await tx.done;
+    return { added, updated };
+  },
+
+  // Applies partial updates to stored events, keyed by event id
+  async patchActivityEvents(repositoryId: string, patches: Map<string, Partial<ActivityEvent>>): Promise<void> {
+    const database = await getDB();
+    const tx = database.transaction("activityEvents", "readwrite");
+    for (const event of await tx.store.index("by-repo").getAll(repositoryId)) {
+      const patch = patches.get(event.id);
+      if (patch) await tx.store.put({ ...event, ...patch });
+    }
+    await tx.done;
+  },
+
+  async getChangeDetails(repositoryId: string): Promise<CachedEnrichment[]> {
+    const database = await getDB();
+    return database.getAllFromIndex("changeDetails", "by-repo", repositoryId);
+  },
+
+  async putChangeDetails(details: CachedEnrichment[]): Promise<void> {
+    const database = await getDB();
+    const tx = database.transaction("changeDetails", "readwrite");
+    for (const entry of details) {
+      await tx.store.put(entry);
+    }
+    await tx.done;
+  },
+
+  async setEventAttributions(repositoryId: string, attributions: Map<string, Attribution | null>): Promise<void> {
+    const database = await getDB();
+    const tx = database.transaction("activityEvents", "readwrite");
+    for (const event of await tx.store.index("by-repo").getAll(repositoryId)) {
+      if (!attributions.has(event.id)) continue;
+      const attribution = attributions.get(event.id) ?? null;
+      await tx.store.put({
         ...event,
-        id: generateId(),
-        repositoryId,
-        agentRoleId: null,
-        createdAt: event.createdAt || new Date().toISOString(),
-      };
-      await tx.store.put(activityEvent);
-      created.push(activityEvent);
+        agentRoleId: attribution?.agentRoleId ?? null,
+        attributionConfidence: attribution?.confidence ?? null,
+        attributionReason: attribution?.reason ?? null,
+      });
     }
     await tx.done;
-    return created;
   },
 };
@@ -0,0 +1,124 @@
+import { apiRequest } from "./queryClient";
+import { activityEventKey, db } from "./db";
+import { sourceParams } from "./repo-source";
+import type {
+  ActivityEvent,
+  CachedEnrichment,
+  CachedEnrichmentFailure,
+  ChangeDetails,
+  EnrichResponse,
+  Repository,
+} from "@shared/schema";
+
+// Matches the server's per-request limit
+const BATCH_SIZE = 50;
+// Failed items wait 1h, 4h, 16h, ... up to 30 days before the next attempt
+const RETRY_BASE_MS = 3600000;
+const RETRY_MAX_MS = 30 * 24 * RETRY_BASE_MS;
+
+function isFailure(entry: CachedEnrichment): entry is CachedEnrichmentFailure {
+  return "retryAfter" in entry;
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 4 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+function needsDetails(event: ActivityEvent): boolean {
+  if (event.type === "commit") return !!event.sha && event.files == null;
+  // Open PRs keep changing, so they are refreshed on every pass
+  if (event.type === "pull_request") return event.prNumber != null && (event.files == null || event.state === "open");
+  return false;
+}
+
+function toPatch(details: ChangeDetails): Partial<ActivityEvent> {
+  return {
+    additions: details.additions,
+    deletions: details.deletions,
+    filesChanged: details.filesChanged,
+    files: details.files,
+  };
+}
+
+/**
+ * Fills in diff stats and touched paths for stored commits and pull requests
+ * that lack them. Results come from the local cache when possible; the rest
+ * are fetched in batches and cached per commit SHA and per closed PR. Items
+ * that fail are cached as failures and skipped until their retry time.
+ */
+export async function enrichActivity(
+  repo: Repository,
+  onProgress?: (done: number, total: number) => void,
+): Promise<{ enriched: number; failed: number }> {
+  const events = (await db.getActivityEvents(repo.id)).filter(needsDetails);
+  const cache = new Map((await db.getChangeDetails(repo.id)).map((d) => [d.id, d]));
+
+  const now = new Date().toISOString();
+  const patches = new Map<string, Partial<ActivityEvent>>();
+  const pending: ActivityEvent[] = [];
+  for (const event of events) {
+    const cached = cache.get(`${repo.id}:${activityEventKey(event)}`);
+    if (cached && isFailure(cached)) {
+      if (cached.retryAfter <= now) pending.push(event);
+    } else if (cached && event.state !== "open") {
+      patches.set(event.id, toPatch(cached));
+    } else {
+      pending.push(event);
+    }
+  }
+  if (patches.size > 0) await db.patchActivityEvents(repo.id, patches);
+
+  let enriched = patches.size;
+  let failed = 0;
+  onProgress?.(0, pending.length);
+
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    const batch = pending.slice(i, i + BATCH_SIZE);
+    const res = await apiRequest("POST", "/api/github/enrich", {
+      ...sourceParams(repo),
+      commits: batch.filter((e) => e.type === "commit").map((e) => e.sha),
+      prs: batch.filter((e) => e.type === "pull_request").map((e) => e.prNumber),
+    });
+    const result: EnrichResponse = await res.json();
+
+    const byKey = new Map<string, ChangeDetails & { state?: ActivityEvent["state"] }>();
+    for (const { sha, ...details } of result.commits) byKey.set(`commit:${sha}`, details);
+    for (const { prNumber, ...details } of result.prs) byKey.set(`pr:${prNumber}`, details);
+
+    const batchPatches = new Map<string, Partial<ActivityEvent>>();
+    const toCache: CachedEnrichment[] = [];
+    const fetchedAt = new Date().toISOString();
+    const failedKeys = new Set(result.failed);
+    for (const event of batch) {
+      const key = activityEventKey(event)!;
+      const found = byKey.get(key);
+      if (!found) {
+        // Open PRs are never cached, failed or not
+        if (!failedKeys.has(key) || event.state === "open") continue;
+        const previous = cache.get(`${repo.id}:${key}`);
+        const attempts = (previous && isFailure(previous) ? previous.attempts : 0) + 1;
+        toCache.push({
+          id: `${repo.id}:${key}`,
+          repositoryId: repo.id,
+          failedAt: fetchedAt,
+          attempts,
+          retryAfter: new Date(Date.parse(fetchedAt) + retryDelay(attempts)).toISOString(),
+        });
+        continue;
+      }
+      const { state, ...details } = found;
+      batchPatches.set(event.id, state ? { ...toPatch(details), state } : toPatch(details));
+      if (state !== "open") {
+        toCache.push({ ...details, id: `${repo.id}:${key}`, repositoryId: repo.id, fetchedAt });
+      }
+    }
+    await db.patchActivityEvents(repo.id, batchPatches);
+    await db.putChangeDetails(toCache);
+
+    enriched += batchPatches.size;
+    failed += result.failed.length;
+    onProgress?.(Math.min(i + BATCH_SIZE, pending.length), pending.length);
+  }
+
+  return { enriched, failed };
+}
@@ -0,0 +1,89 @@
+import type { PlanExecution } from "./plan-execution";
+import type { ActivityEvent, AgentMetrics, AgentRole } from "@shared/schema";
+
+const HOUR_MS = 3600000;
+// How long before a PR was opened its commits may have been made
+const PR_COMMIT_LEAD_MS = 7 * 24 * HOUR_MS;
+// Squash and merge commits can be dated a little after the recorded merge
+const MERGE_SLACK_MS = 60000;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function latest(dates: (string | null | undefined)[]): string | null {
+  let best: string | null = null;
+  for (const d of dates) {
+    if (d && (!best || new Date(d).getTime() > new Date(best).getTime())) best = d;
+  }
+  return best;
+}
+
+/**
+ * Whether a commit most likely went through one of the PRs: made from a week
+ * before the PR was opened until it merged or closed, touching a file the PR
+ * touched. Commits or PRs without known paths cannot be matched.
+ */
+function partOfPr(commit: ActivityEvent, prs: ActivityEvent[]): boolean {
+  if (!commit.files?.length) return false;
+  const time = new Date(commit.createdAt).getTime();
+  return prs.some((pr) => {
+    if (!pr.files?.length) return false;
+    const end = pr.mergedAt ?? pr.closedAt;
+    if (time < new Date(pr.createdAt).getTime() - PR_COMMIT_LEAD_MS) return false;
+    if (end && time > new Date(end).getTime() + MERGE_SLACK_MS) return false;
+    return commit.files!.some((f) => pr.files!.includes(f));
+  });
+}
+
+/**
+ * Computes activity metrics for one agent from the events attributed to it
+ * and the files found by the last scan. A plan counts as executed once a PR
+ * linked to it has merged (see plan-execution.ts).
+ */
+export function computeAgentMetrics(role: AgentRole, events: ActivityEvent[], plans: PlanExecution[]): AgentMetrics {
+  const own = events.filter((e) => e.agentRoleId === role.id);
+  const commits = own.filter((e) => e.type === "commit");
+  const prs = own.filter((e) => e.type === "pull_request");
+  const merged = prs.filter((e) => e.state === "merged" || !!e.mergedAt);
+  const closed = prs.filter((e) => e.state === "closed" || e.state === "merged" || !!e.closedAt);
+  const ownPlans = plans.filter((p) => p.agentRoleId === role.id);
+
+  const cycleTimes = merged
+    .filter((e) => e.mergedAt)
+    .map((e) => (new Date(e.mergedAt!).getTime() - new Date(e.createdAt).getTime()) / HOUR_MS)
+    .filter((h) => h >= 0);
+  const cycle = median(cycleTimes);
+
+  // PR stats include their commits, so only direct commits are added on top
+  const lineSource = [...prs, ...commits.filter((c) => !partOfPr(c, prs))];
+
+  return {
+    commitCount: commits.length,
+    prCount: prs.length,
+    mergedPrCount: merged.length,
+    mergeRate: closed.length > 0 ? merged.length / closed.length : null,
+    medianCycleTimeHours: cycle === null ? null : Math.round(cycle * 10) / 10,
+    plansWritten: ownPlans.length,
+    plansExecuted: ownPlans.filter((p) => p.state === "merged").length,
+    linesAdded: lineSource.reduce((sum, e) => sum + (e.additions ?? 0), 0),
+    linesDeleted: lineSource.reduce((sum, e) => sum + (e.deletions ?? 0), 0),
+    lastActiveAt: latest([...own.map((e) => e.createdAt), ...role.files.map((f) => f.date)]),
+    computedAt: new Date().toISOString(),
+  };
+}
+
+// `plans` is trackPlanExecution() over the same roles and events
+export function computeAllAgentMetrics(roles: AgentRole[], events: ActivityEvent[], plans: PlanExecution[]): Map<string, AgentMetrics> {
+  return new Map(roles.map((role) => [role.id, computeAgentMetrics(role, events, plans)]));
+}
+
+export function formatCycleTime(hours: number | null): string {
+  if (hours === null) return "—";
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 48) return `${Math.round(hours)}h`;
+  return `${Math.round(hours / 24)}d`;
+}
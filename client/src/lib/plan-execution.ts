@@ -0,0 +1,250 @@
+import { planSlug } from "./attribution";
+import type { ActivityEvent, AgentFile, AgentRole } from "@shared/schema";
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+// Shorter slugs ("fix", "cleanup") match too much unrelated text
+const MIN_SLUG_LENGTH = 8;
+
+export type PlanState = "pending" | "in-progress" | "merged" | "abandoned";
+
+export interface PlanPrLink {
+  pr: ActivityEvent;
+  reason: string;
+}
+
+export interface PlanExecution {
+  path: string;
+  agentRoleId: string;
+  // The scanned file; null for plans only seen in activity (e.g. deleted once executed)
+  file: AgentFile | null;
+  // From the file name's date, else the first activity touching it, else the scanned file date
+  writtenAt: string | null;
+  state: PlanState;
+  // Executing pull requests, oldest first
+  links: PlanPrLink[];
+  // When the first linked PR merged
+  executedAt: string | null;
+  timeToExecutionHours: number | null;
+}
+
+export interface PlanThroughput {
+  written: number;
+  executed: number;
+  inProgress: number;
+  pending: number;
+  abandoned: number;
+  // Share of the plans written in the window that have been executed
+  executionRate: number | null;
+  medianTimeToExecutionHours: number | null;
+  executedPerWeek: number | null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// "Player: Async seek" and "feature/player_async_seek" both become "player-async-seek"
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+}
+
+function parentDir(path: string): string {
+  return path.slice(0, path.lastIndexOf("/") + 1);
+}
+
+// "2026-10-29-PLAYER-Async-Seek.md" → 2026-10-29T00:00:00.000Z
+function dateFromFileName(path: string): string | null {
+  const m = (path.split("/").pop() ?? "").match(/^(\d{4}-\d{2}-\d{2})-/);
+  if (!m) return null;
+  const time = Date.parse(`${m[1]}T00:00:00Z`);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function isMerged(pr: ActivityEvent): boolean {
+  return pr.state === "merged" || !!pr.mergedAt;
+}
+
+// A pull request with its text normalized once for all plans
+interface IndexedPr {
+  pr: ActivityEvent;
+  lowerText: string;
+  normalizedText: string;
+  normalizedBranch: string | null;
+}
+
+// Pull requests by touched path and by word of their title, description and branch
+interface PrIndex {
+  all: IndexedPr[];
+  byPath: Map<string, IndexedPr[]>;
+  byWord: Map<string, IndexedPr[]>;
+}
+
+function push<K, V>(map: Map<K, V[]>, key: K, value: V) {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
+
+function words(normalized: string): string[] {
+  return normalized.split("-").filter(Boolean);
+}
+
+function indexPrs(prs: ActivityEvent[]): PrIndex {
+  const index: PrIndex = { all: [], byPath: new Map(), byWord: new Map() };
+  for (const pr of prs) {
+    const text = `${pr.title}\n${pr.description ?? ""}`;
+    const indexed: IndexedPr = {
+      pr,
+      lowerText: text.toLowerCase(),
+      normalizedText: normalize(text),
+      normalizedBranch: pr.branch ? normalize(pr.branch) : null,
+    };
+    index.all.push(indexed);
+    for (const path of new Set(pr.files ?? [])) push(index.byPath, path, indexed);
+    for (const word of new Set([...words(indexed.normalizedText), ...words(indexed.normalizedBranch ?? "")])) {
+      push(index.byWord, word, indexed);
+    }
+  }
+  return index;
+}
+
+/**
+ * The pull requests that may link to a plan: those touching the plan file and
+ * those whose text or branch contains the longest word of the plan's slug,
+ * which both a path reference and a named slug include.
+ */
+function candidatePrs(planPath: string, index: PrIndex): IndexedPr[] {
+  const slugWords = words(normalize(planSlug(planPath)));
+  if (slugWords.length === 0) return index.all;
+  const key = slugWords.reduce((a, b) => (b.length > a.length ? b : a));
+  return Array.from(new Set([...(index.byPath.get(planPath) ?? []), ...(index.byWord.get(key) ?? [])]));
+}
+
+/**
+ * Why a pull request executed the plan, or null when it did not. A PR that
+ * only touches files in plan directories within a day of the plan's date is
+ * the one that wrote it; later ones (e.g. deleting the finished plan) count.
+ */
+function linkReason(planPath: string, writtenAt: string | null, { pr, lowerText, normalizedText, normalizedBranch }: IndexedPr, planDirs: Set<string>): string | null {
+  const touched = pr.files ?? [];
+  const onlyPlans = touched.length > 0 && touched.every((f) => planDirs.has(parentDir(f)));
+  if (onlyPlans && (!writtenAt || new Date(pr.createdAt).getTime() - new Date(writtenAt).getTime() <= DAY_MS)) return null;
+
+  const slug = normalize(planSlug(planPath));
+  if (touched.includes(planPath)) return "Touches the plan file";
+  if (lowerText.includes(planPath.toLowerCase())) return "References the plan path";
+  if (slug.length >= MIN_SLUG_LENGTH && normalizedText.includes(slug)) return "Names the plan in its title or description";
+  if (slug.length >= MIN_SLUG_LENGTH && normalizedBranch?.includes(slug)) return `Branch ${pr.branch} is named after the plan`;
+  return null;
+}
+
+function planState(links: PlanPrLink[]): PlanState {
+  if (links.length === 0) return "pending";
+  if (links.some((l) => isMerged(l.pr))) return "merged";
+  if (links.some((l) => l.pr.state === "open")) return "in-progress";
+  return "abandoned";
+}
+
+function trackPlan(
+  path: string,
+  agentRoleId: string,
+  file: AgentFile | null,
+  eventsByPath: Map<string, ActivityEvent[]>,
+  prIndex: PrIndex,
+  planDirs: Set<string>,
+): PlanExecution {
+  const firstTouch = (eventsByPath.get(path) ?? [])
+    .reduce<string | null>((min, e) => (!min || e.createdAt < min ? e.createdAt : min), null);
+  const writtenAt = dateFromFileName(path) ?? firstTouch ?? file?.date ?? null;
+
+  const links = candidatePrs(path, prIndex)
+    .map((indexed) => ({ pr: indexed.pr, reason: linkReason(path, writtenAt, indexed, planDirs) }))
+    .filter((l): l is PlanPrLink => l.reason !== null)
+    .sort((a, b) => new Date(a.pr.createdAt).getTime() - new Date(b.pr.createdAt).getTime());
+
+  const merged = links.filter((l) => isMerged(l.pr));
+  const executedAt = merged.length > 0 ? merged[0].pr.mergedAt ?? merged[0].pr.createdAt : null;
+  const hours = writtenAt && executedAt ? (new Date(executedAt).getTime() - new Date(writtenAt).getTime()) / HOUR_MS : null;
+
+  return {
+    path,
+    agentRoleId,
+    file,
+    writtenAt,
+    state: planState(links),
+    links,
+    executedAt,
+    timeToExecutionHours: hours !== null && hours >= 0 ? Math.round(hours * 10) / 10 : null,
+  };
+}
+
+/**
+ * Links each plan to the pull requests that executed it: the PR touches or
+ * deletes the plan file, references its path, names its slug, or comes from a
+ * branch named after it. Besides the scanned plans, plans that activity of the
+ * agent touched in a known plan directory are tracked too, so executed plans
+ * that were deleted afterwards still count.
+ */
+export function trackPlanExecution(roles: AgentRole[], events: ActivityEvent[]): PlanExecution[] {
+  const prIndex = indexPrs(events.filter((e) => e.type === "pull_request"));
+  const eventsByPath = new Map<string, ActivityEvent[]>();
+  const eventsByRole = new Map<string, ActivityEvent[]>();
+  for (const event of events) {
+    for (const path of new Set(event.files ?? [])) push(eventsByPath, path, event);
+    if (event.agentRoleId) push(eventsByRole, event.agentRoleId, event);
+  }
+  const planDirs = new Set(roles.flatMap((r) => r.files.filter((f) => f.type === "plan").map((f) => parentDir(f.path))));
+  // Each plan is tracked once, for the first agent found with it
+  const seen = new Set(roles.flatMap((r) => r.files.filter((f) => f.type === "plan").map((f) => f.path)));
+
+  const plans: PlanExecution[] = [];
+  for (const role of roles) {
+    for (const file of role.files.filter((f) => f.type === "plan")) {
+      plans.push(trackPlan(file.path, role.id, file, eventsByPath, prIndex, planDirs));
+    }
+    const removed = new Set<string>();
+    for (const event of eventsByRole.get(role.id) ?? []) {
+      for (const path of event.files ?? []) {
+        if (!seen.has(path) && planDirs.has(parentDir(path)) && /\.md$/i.test(path)) removed.add(path);
+      }
+    }
+    for (const path of Array.from(removed)) {
+      seen.add(path);
+      plans.push(trackPlan(path, role.id, null, eventsByPath, prIndex, planDirs));
+    }
+  }
+  return plans;
+}
+
+/**
+ * Repository-wide plan throughput for the plans written since `since` (all
+ * plans when null). Plans without a known date only count without a window.
+ */
+export function summarizePlanThroughput(plans: PlanExecution[], since: Date | null, now = new Date()): PlanThroughput {
+  const inWindow = since
+    ? plans.filter((p) => p.writtenAt && new Date(p.writtenAt) >= since)
+    : plans;
+  const count = (state: PlanState) => inWindow.filter((p) => p.state === state).length;
+  const executed = count("merged");
+
+  const start = since?.getTime()
+    ?? Math.min(...inWindow.filter((p) => p.writtenAt).map((p) => new Date(p.writtenAt!).getTime()));
+  const weeks = Number.isFinite(start) ? Math.max(1, (now.getTime() - start) / WEEK_MS) : null;
+  const time = median(inWindow.map((p) => p.timeToExecutionHours).filter((h): h is number => h !== null));
+
+  return {
+    written: inWindow.length,
+    executed,
+    inProgress: count("in-progress"),
+    pending: count("pending"),
+    abandoned: count("abandoned"),
+    executionRate: inWindow.length > 0 ? executed / inWindow.length : null,
+    medianTimeToExecutionHours: time === null ? null : Math.round(time * 10) / 10,
+    executedPerWeek: weeks !== null && inWindow.length > 0 ? Math.round((executed / weeks) * 10) / 10 : null,
+  };
+}
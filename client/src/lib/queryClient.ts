@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { ProgressEvent } from "@shared/schema";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -23,6 +24,60 @@ export async function apiRequest(
   return res;
 }
 
+/**
+ * POSTs to an endpoint in streaming mode and reads its Server-Sent Events,
+ * forwarding `progress` events until the final `result` (or `error`) arrives.
+ * Abort the signal to cancel the request server-side as well.
+ */
+export async function apiStream<T>(
+  url: string,
+  data: Record<string, unknown>,
+  onProgress: (event: ProgressEvent) => void,
+  signal?: AbortSignal,
+): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify({ ...data, stream: true }),
+    credentials: "include",
+    signal,
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) throw new Error("Streaming is not supported by this browser");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      let payload = "";
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event: ")) event = line.slice(7);
+        else if (line.startsWith("data: ")) payload += line.slice(6);
+      }
+      if (!payload) continue;
+
+      const parsed = JSON.parse(payload);
+      if (event === "progress") onProgress(parsed);
+      else if (event === "result") return parsed as T;
+      else if (event === "error") throw new Error(`${parsed.status}: ${parsed.message}`);
+    }
+  }
+
+  throw new Error("Stream ended before a result was received");
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
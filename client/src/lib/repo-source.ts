@@ -0,0 +1,14 @@
+import type { Repository } from "@shared/schema";
+
+/**
+ * The fields every repository route needs to find the repository: owner and
+ * name on GitHub, GitLab or Gitea, or the path of a local clone.
+ */
+export function sourceParams(repo: Pick<Repository, "owner" | "name" | "provider" | "localPath">) {
+  return {
+    owner: repo.owner,
+    name: repo.name,
+    provider: repo.provider ?? "github",
+    localPath: repo.localPath ?? null,
+  };
+}
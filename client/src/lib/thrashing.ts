@@ -0,0 +1,243 @@
+import type { ActivityEvent, AgentRole } from "@shared/schema";
+
+export type ThrashingKind = "file-churn" | "revert" | "redone-pr" | "plan-rewrite";
+
+// Same scale as the AI's frictionAndThrashing severities
+export type ThrashingSeverity = "low" | "medium" | "critical";
+
+export interface ThrashingEvidence {
+  label: string;
+  sha?: string;
+  prNumber?: number;
+}
+
+export interface ThrashingFinding {
+  kind: ThrashingKind;
+  severity: ThrashingSeverity;
+  // The file, plan or PR title the finding is about
+  component: string;
+  issue: string;
+  evidence: ThrashingEvidence[];
+}
+
+export interface ThrashingOptions {
+  // Commits touching the same file within this window count as churn
+  churnWindowHours: number;
+  churnMinCommits: number;
+  planMinRewrites: number;
+}
+
+export const DEFAULT_THRASHING_OPTIONS: ThrashingOptions = {
+  churnWindowHours: 48,
+  churnMinCommits: 4,
+  planMinRewrites: 3,
+};
+
+const HOUR_MS = 3600000;
+const MAX_EVIDENCE = 8;
+const SEVERITY_RANK: Record<ThrashingSeverity, number> = { critical: 0, medium: 1, low: 2 };
+
+function time(event: ActivityEvent): number {
+  return new Date(event.createdAt).getTime();
+}
+
+function shortSha(sha: string | null): string {
+  return sha ? sha.slice(0, 7) : "";
+}
+
+function commitEvidence(event: ActivityEvent): ThrashingEvidence {
+  return { label: `${shortSha(event.sha)} ${event.title}`, sha: event.sha ?? undefined };
+}
+
+function prEvidence(event: ActivityEvent): ThrashingEvidence {
+  return { label: `#${event.prNumber} ${event.title} (${event.state ?? "unknown"})`, prNumber: event.prNumber ?? undefined };
+}
+
+function bySeverity(count: number, medium: number, critical: number): ThrashingSeverity {
+  if (count >= critical) return "critical";
+  if (count >= medium) return "medium";
+  return "low";
+}
+
+// The largest set of commits touching `path` that fits inside the window
+function densestWindow(commits: ActivityEvent[], windowMs: number): ActivityEvent[] {
+  let best: ActivityEvent[] = [];
+  let start = 0;
+  for (let end = 0; end < commits.length; end++) {
+    while (time(commits[end]) - time(commits[start]) > windowMs) start++;
+    if (end - start + 1 > best.length) best = commits.slice(start, end + 1);
+  }
+  return best;
+}
+
+function detectFileChurn(commits: ActivityEvent[], ignored: Set<string>, options: ThrashingOptions): ThrashingFinding[] {
+  const byFile = new Map<string, ActivityEvent[]>();
+  for (const commit of commits) {
+    for (const path of commit.files ?? []) {
+      if (ignored.has(path)) continue;
+      if (!byFile.has(path)) byFile.set(path, []);
+      byFile.get(path)!.push(commit);
+    }
+  }
+
+  const findings: ThrashingFinding[] = [];
+  for (const [path, touching] of Array.from(byFile)) {
+    if (touching.length < options.churnMinCommits) continue;
+    const window = densestWindow(touching, options.churnWindowHours * HOUR_MS);
+    if (window.length < options.churnMinCommits) continue;
+    const spanHours = Math.max(1, Math.round((time(window[window.length - 1]) - time(window[0])) / HOUR_MS));
+    findings.push({
+      kind: "file-churn",
+      severity: bySeverity(window.length, options.churnMinCommits + 2, options.churnMinCommits * 2),
+      component: path,
+      issue: `Edited in ${window.length} commits within ${spanHours}h`,
+      evidence: window.slice(-MAX_EVIDENCE).map(commitEvidence),
+    });
+  }
+  return findings;
+}
+
+const REVERT_TITLE = /^revert\s+"(.+)"$/i;
+const REAPPLY_TITLE = /^reapply\s+"(.+)"$/i;
+const REVERTS_SHA = /this reverts commit ([0-9a-f]{7,40})/i;
+
+function detectReverts(commits: ActivityEvent[]): ThrashingFinding[] {
+  const bySha = new Map(commits.filter((c) => c.sha).map((c) => [c.sha!, c]));
+  const groups = new Map<string, { original: ActivityEvent | null; reverts: ActivityEvent[] }>();
+
+  for (const commit of commits) {
+    const titleMatch = commit.title.match(REVERT_TITLE);
+    const shaMatch = commit.description?.match(REVERTS_SHA);
+    if (!titleMatch && !shaMatch) continue;
+    const original = shaMatch
+      ? Array.from(bySha.values()).find((c) => c.sha!.startsWith(shaMatch[1])) ?? null
+      : commits.find((c) => c.title === titleMatch![1]) ?? null;
+    const subject = original?.title ?? titleMatch?.[1] ?? commit.title;
+    if (!groups.has(subject)) groups.set(subject, { original, reverts: [] });
+    groups.get(subject)!.reverts.push(commit);
+  }
+
+  const findings: ThrashingFinding[] = [];
+  for (const [subject, { original, reverts }] of Array.from(groups)) {
+    const lastRevert = reverts[reverts.length - 1];
+    // A later commit carrying the original subject again re-applies the change
+    const reapplied = commits.filter((c) => time(c) > time(reverts[0]) && c !== original && (
+      c.title === subject || c.title.match(REAPPLY_TITLE)?.[1] === subject
+    ));
+    findings.push({
+      kind: "revert",
+      severity: reverts.length > 1 ? "critical" : reapplied.length > 0 ? "medium" : "low",
+      component: subject,
+      issue: reapplied.length > 0
+        ? `Reverted ${reverts.length}× and re-applied ${reapplied.length}×`
+        : `Reverted ${formatAgo(time(lastRevert))}`,
+      evidence: [original, ...reverts, ...reapplied]
+        .filter((c): c is ActivityEvent => !!c)
+        .sort((a, b) => time(a) - time(b))
+        .slice(0, MAX_EVIDENCE)
+        .map(commitEvidence),
+    });
+  }
+  return findings;
+}
+
+function formatAgo(timestamp: number): string {
+  const days = Math.round((Date.now() - timestamp) / (24 * HOUR_MS));
+  return days <= 0 ? "today" : `${days}d ago`;
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/\[[^\]]*\]|\(#?\d+\)/g, "").replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Closed-without-merge PRs whose work came back as another PR on the same branch or with the same title
+function detectRedonePrs(prs: ActivityEvent[]): ThrashingFinding[] {
+  const groups = new Map<string, ActivityEvent[]>();
+  for (const pr of prs) {
+    const key = pr.branch ? `branch:${pr.branch}` : `title:${normalizeTitle(pr.title)}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(pr);
+    // Also group by title so a retry on a fresh branch is caught
+    const titleKey = `title:${normalizeTitle(pr.title)}`;
+    if (pr.branch && titleKey !== key) {
+      if (!groups.has(titleKey)) groups.set(titleKey, []);
+      groups.get(titleKey)!.push(pr);
+    }
+  }
+
+  const seen = new Set<string>();
+  const findings: ThrashingFinding[] = [];
+  for (const attempts of Array.from(groups.values())) {
+    if (attempts.length < 2) continue;
+    const abandoned = attempts.filter((pr) => pr.state === "closed");
+    if (abandoned.length === 0) continue;
+    const signature = attempts.map((pr) => pr.prNumber).sort().join(",");
+    if (seen.has(signature)) continue;
+    seen.add(signature);
+
+    const ordered = [...attempts].sort((a, b) => time(a) - time(b));
+    const last = ordered[ordered.length - 1];
+    findings.push({
+      kind: "redone-pr",
+      severity: bySeverity(attempts.length, 2, 3),
+      component: last.title,
+      issue: `${attempts.length} attempts, ${abandoned.length} closed without merge; latest is ${last.state ?? "unknown"}`,
+      evidence: ordered.slice(-MAX_EVIDENCE).map(prEvidence),
+    });
+  }
+  return findings;
+}
+
+function detectPlanRewrites(commits: ActivityEvent[], roles: AgentRole[], options: ThrashingOptions): ThrashingFinding[] {
+  const findings: ThrashingFinding[] = [];
+  for (const role of roles) {
+    for (const plan of role.files.filter((f) => f.type === "plan")) {
+      const touching = commits.filter((c) => c.files?.includes(plan.path));
+      if (touching.length < options.planMinRewrites) continue;
+      findings.push({
+        kind: "plan-rewrite",
+        severity: bySeverity(touching.length, options.planMinRewrites + 2, options.planMinRewrites * 2 + 2),
+        component: plan.path,
+        issue: `Plan of ${role.name} rewritten in ${touching.length} commits`,
+        evidence: touching.slice(-MAX_EVIDENCE).map(commitEvidence),
+      });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Finds signs of agents thrashing in the stored history: files churned within
+ * a short window, reverted and re-applied commits, pull requests abandoned and
+ * redone, and plans rewritten over and over. Churn and plan checks need the
+ * touched file lists from enrichment; commits without them are skipped.
+ */
+export function detectThrashing(
+  events: ActivityEvent[],
+  roles: AgentRole[],
+  options: ThrashingOptions = DEFAULT_THRASHING_OPTIONS,
+): ThrashingFinding[] {
+  const chronological = [...events].sort((a, b) => time(a) - time(b));
+  const commits = chronological.filter((e) => e.type === "commit");
+  const prs = chronological.filter((e) => e.type === "pull_request" && e.prNumber != null);
+
+  // Status and progress files are rewritten by design; plans have their own check
+  const agentFiles = new Set(roles.flatMap((r) => r.files
+    .filter((f) => f.type === "status" || f.type === "progress" || f.type === "plan")
+    .map((f) => f.path)));
+
+  return [
+    ...detectFileChurn(commits, agentFiles, options),
+    ...detectReverts(commits),
+    ...detectRedonePrs(prs),
+    ...detectPlanRewrites(commits, roles, options),
+  ].sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || b.evidence.length - a.evidence.length);
+}
+
+// Plain-text digest of the findings, sent to the analyze prompt as grounding
+export function summarizeThrashing(findings: ThrashingFinding[], limit = 15): string {
+  return findings.slice(0, limit).map((f) => {
+    const refs = f.evidence.slice(0, 4).map((e) => (e.prNumber != null ? `#${e.prNumber}` : e.sha?.slice(0, 7))).filter(Boolean);
+    return `- [${f.severity}] ${f.kind} · ${f.component}: ${f.issue}${refs.length ? ` (${refs.join(", ")})` : ""}`;
+  }).join("\n");
+}
@@ -0,0 +1,51 @@
+import type { ActivityEvent, AiAnalysisResult } from "@shared/schema";
+
+const DAY_MS = 86400000;
+
+export interface AnalysisTrendPoint {
+  analysisId: string;
+  createdAt: string;
+  score: number | null;
+  // Commits and PRs created in the window before the run
+  commits: number;
+  prs: number;
+  frictionLow: number;
+  frictionMedium: number;
+  frictionCritical: number;
+  // Null when the run has no structured analysis
+  violations: number | null;
+}
+
+/**
+ * One point per stored repository analysis, oldest first. Velocity comes from
+ * the stored activity in the `windowDays` before each run, so it reflects
+ * what the run was looking at rather than the totals it reported.
+ */
+export function buildAnalysisTrends(
+  analyses: AiAnalysisResult[],
+  events: ActivityEvent[],
+  windowDays = 7,
+): AnalysisTrendPoint[] {
+  const times = events.map((e) => ({ type: e.type, time: new Date(e.createdAt).getTime() }));
+
+  return analyses
+    .filter((a) => a.type === "ai_analysis")
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .map((analysis) => {
+      const end = new Date(analysis.createdAt).getTime();
+      const start = end - windowDays * DAY_MS;
+      const inWindow = times.filter((e) => e.time > start && e.time <= end);
+      const friction = analysis.details.analysis?.frictionAndThrashing ?? [];
+      return {
+        analysisId: analysis.id,
+        createdAt: analysis.createdAt,
+        score: analysis.score,
+        commits: inWindow.filter((e) => e.type === "commit").length,
+        prs: inWindow.filter((e) => e.type === "pull_request").length,
+        frictionLow: friction.filter((f) => f.severity === "low").length,
+        frictionMedium: friction.filter((f) => f.severity === "medium").length,
+        frictionCritical: friction.filter((f) => f.severity === "critical").length,
+        violations: analysis.details.analysis ? analysis.details.analysis.boundaryViolations.length : null,
+      };
+    });
+}
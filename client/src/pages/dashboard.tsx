@@ -21,6 +21,13 @@ import {
   CardDescription,
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Dialog,
@@ -34,11 +41,12 @@ import { GravityRing } from "@/components/gravity-ring";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { db } from "@/lib/db";
-import type { Repository, Settings as SettingsType } from "@shared/schema";
+import type { Repository, RepositoryProvider, Settings as SettingsType } from "@shared/schema";
 
 export default function Dashboard() {
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [repoInput, setRepoInput] = useState("");
+  const [repoHost, setRepoHost] = useState<Exclude<RepositoryProvider, "local">>("github");
   const [adding, setAdding] = useState(false);
   const [repos, setRepos] = useState<Repository[]>([]);
   const [reposLoading, setReposLoading] = useState(true);
@@ -67,6 +75,8 @@ export default function Dashboard() {
             fullName: repoData.fullName,
             description: repoData.description,
             defaultBranch: repoData.defaultBranch,
+            provider: "github",
+            webUrl: repoData.webUrl,
           });
           const updatedRepos = await db.getRepositories();
           setRepos(updatedRepos);
@@ -86,18 +96,26 @@ export default function Dashboard() {
   }, [loadRepos]);
 
   const handleAddRepo = async () => {
-    if (!repoInput.includes("/")) {
+    const input = repoInput.trim();
+    // Absolute paths (/srv/clone, C:\\src\\clone) name a clone on the server's disk
+    const isLocalPath = /^(\/|[A-Za-z]:[\\/])/.test(input);
+    if (!isLocalPath && !input.includes("/")) {
       toast({
         title: "Invalid format",
-        description: "Please enter in owner/name format",
+        description: "Please enter owner/name or an absolute path to a local clone",
         variant: "destructive",
       });
       return;
     }
     setAdding(true);
     try {
-      const [owner, name] = repoInput.split("/");
-      const res = await apiRequest("POST", "/api/github/repo", { owner, name });
+      // The last segment is the name; GitLab owners can span subgroups (group/subgroup/name)
+      const slash = input.lastIndexOf("/");
+      const owner = input.slice(0, slash);
+      const name = input.slice(slash + 1);
+      const res = await apiRequest("POST", "/api/github/repo", isLocalPath
+        ? { provider: "local", localPath: input }
+        : { provider: repoHost, owner, name });
       const repoData = await res.json();
       await db.createRepository({
         owner: repoData.owner,
@@ -105,6 +123,9 @@ export default function Dashboard() {
         fullName: repoData.fullName,
         description: repoData.description,
         defaultBranch: repoData.defaultBranch,
+        provider: repoData.provider,
+        localPath: repoData.localPath,
+        webUrl: repoData.webUrl,
       });
       await loadRepos();
       setAddDialogOpen(false);
@@ -135,7 +156,7 @@ export default function Dashboard() {
     }
   };
 
-  const hasSettings = settings?.githubPat;
+  const hasSettings = settings?.githubPat || settings?.githubMode === "fixture";
 
   if (reposLoading || settingsLoading) {
     return (
@@ -220,7 +241,7 @@ export default function Dashboard() {
                       {repo.name}
                     </CardTitle>
                     <CardDescription className="text-xs truncate">
-                      {repo.owner}
+                      {repo.provider === "local" ? repo.localPath : repo.owner}
                     </CardDescription>
                   </div>
                   <GravityRing
@@ -312,12 +333,24 @@ export default function Dashboard() {
           <DialogHeader>
             <DialogTitle>Add Repository</DialogTitle>
             <DialogDescription>
-              Enter the repository in owner/name format (e.g. facebook/react)
+              Pick the host and enter the repository in owner/name format (e.g. facebook/react), or the absolute path of a local git clone on the server
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
+            <Select value={repoHost} onValueChange={(value) => setRepoHost(value as typeof repoHost)}>
+              <SelectTrigger data-testid="select-repo-host">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="github">GitHub</SelectItem>
+                <SelectItem value="gitlab">GitLab ({settings?.gitlabUrl ?? "https://gitlab.com"})</SelectItem>
+                <SelectItem value="gitea" disabled={!settings?.giteaUrl}>
+                  {settings?.giteaUrl ? `Gitea (${settings.giteaUrl})` : "Gitea (set GITEA_URL)"}
+                </SelectItem>
+              </SelectContent>
+            </Select>
             <Input
-              placeholder="owner/name"
+              placeholder="owner/name or /path/to/clone"
               value={repoInput}
               onChange={(e) => setRepoInput(e.target.value)}
               onKeyDown={(e) => e.key === "Enter" && handleAddRepo()}
@@ -19,6 +19,10 @@ import {
   AlertTriangle,
   ShieldAlert,
   Zap,
+  Settings2,
+  GitCompare,
+  FileText,
+  Microscope,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -34,32 +38,80 @@ import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { GravityRing } from "@/components/gravity-ring";
 import { GravityVisualization } from "@/components/gravity-visualization";
-import { FileContentSheet } from "@/components/file-content-sheet";
+import { FileContentSheet, type AnalysisRun } from "@/components/file-content-sheet";
 import { PlanListSheet } from "@/components/plan-list-sheet";
+import { LayoutRulesSheet } from "@/components/layout-rules-sheet";
+import { RefSelect } from "@/components/ref-select";
+import { RosterCompareSheet } from "@/components/roster-compare-sheet";
+import { PromptTemplateSheet } from "@/components/prompt-template-sheet";
+import { ProgressLog, type PhaseRanges } from "@/components/progress-log";
+import { ThrashingFindings } from "@/components/thrashing-findings";
+import { BoundaryViolationList } from "@/components/boundary-violations";
+import { AnalysisTrends } from "@/components/analysis-trends";
+import { AnalysisDiffSheet } from "@/components/analysis-diff-sheet";
+import { AgentAnalysisSheet } from "@/components/agent-analysis-sheet";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, apiStream } from "@/lib/queryClient";
 import { db } from "@/lib/db";
+import { parseAgentAnalysisDetails, parseAiAnalysisDetails } from "@/lib/analysis";
+import { attributeEvents } from "@/lib/attribution";
+import { computeAllAgentMetrics, formatCycleTime } from "@/lib/metrics";
+import { enrichActivity } from "@/lib/enrichment";
+import { detectThrashing, summarizeThrashing } from "@/lib/thrashing";
+import { buildAnalysisTrends } from "@/lib/trends";
+import { summarizePlanThroughput, trackPlanExecution } from "@/lib/plan-execution";
+import { sourceParams } from "@/lib/repo-source";
+import { checkBoundaries, summarizeBoundaryViolations, type BoundaryViolation } from "@shared/boundaries";
+import { repoLinks, type RepoLinks } from "@shared/repo-links";
+import { describePromptTemplate } from "@shared/prompt-template";
 import type {
+  RefList,
   Repository,
   AgentRole,
+  AgentState,
   AgentFile,
   ActivityEvent,
-  AnalysisResult,
-  HighFidelityAnalysis,
+  AgentAnalysisResult,
+  AiAnalysisResult,
+  ProgressEvent,
+  ScanChanges,
+  NewActivityEvent,
+  SyncCursor,
 } from "@shared/schema";
 
-const SCAN_MESSAGES = [
-  "Scanning repository tree...",
-  "Classifying agent files...",
-  "Extracting agent identities...",
-  "Matching plans to agents...",
-  "Parsing prompt boundaries...",
-  "Grouping files by agent...",
-  "Building agent profiles...",
-  "Almost there...",
-];
+const SCAN_PHASES: PhaseRanges = {
+  tree: [5, 10],
+  classify: [10, 20],
+  contents: [20, 50],
+  dates: [50, 95],
+  done: [100, 100],
+};
+
+// Most recent plans per agent whose excerpts go into the analysis prompt
+const ANALYSIS_PLANS_PER_AGENT = 3;
+
+// What a per-agent deep dive sends: its newest plans and attributed events
+const AGENT_ANALYSIS_PLANS = 5;
+const AGENT_ANALYSIS_MAX_EVENTS = 200;
+
+const ANALYZE_PHASES: PhaseRanges = {
+  github: [5, 25],
+  map: [25, 55],
+  context: [55, 58],
+  ai: [58, 60],
+  tokens: [60, 95],
+  done: [100, 100],
+};
 
 const FILE_TYPE_LABELS: Record<AgentFile["type"], { label: string; color: string }> = {
   "planning-prompt": { label: "Planning", color: "bg-blue-500/20 text-blue-400 border-blue-500/30" },
@@ -101,6 +153,36 @@ function getEventIcon(type: string) {
       return <GitBranch className="w-4 h-4" />;
     default:
       return <Activity className="w-4 h-4" />;
+  }
+}
+
+// Agent files are read where the roster was scanned
+function scannedRef(repo: Repository): string {
+  return repo.scanRef || repo.defaultBranch || "main";
+}
+
+type ScanResponse = {
+  treeSha: string;
+  unchanged: boolean;
+  roles: Omit<AgentRole, "id" | "repositoryId" | "createdAt" | "planCount" | "prCount" | "lastActiveAt">[];
+  changes: ScanChanges;
+};
+
+function describeScanChanges({ unchanged, changes }: ScanResponse): string {
+  if (unchanged) return "No changes since the last scan";
+  const parts = [
+    [changes.rolesAdded.length, "role", "added"],
+    [changes.rolesRemoved.length, "role", "removed"],
+    [changes.rolesChanged.length, "role", "changed"],
+    [changes.filesAdded.length, "file", "added"],
+    [changes.filesRemoved.length, "file", "removed"],
+    [changes.filesChanged.length, "file", "changed"],
+  ] as const;
+  const summary = parts
+    .filter(([count]) => count > 0)
+    .map(([count, noun, verb]) => `${count} ${noun}${count === 1 ? "" : "s"} ${verb}`)
+    .join(", ");
+  return summary || "No agent files changed";
 }
 
 export function formatTimestamp(dateInput: string | Date | number) {
@@ -109,43 +191,156 @@ export function formatTimestamp(dateInput: string | Date | number) {
   return `${format(date, "MMM d, yyyy h:mmaaa")} ${tzAbbr}`;
 }
 
+// Re-runs agent attribution over everything stored for the repository, then
+// recomputes the per-agent metrics that depend on it
+async function reattributeActivity(repositoryId: string) {
+  const storedRoles = await db.getAgentRoles(repositoryId);
+  await db.setEventAttributions(repositoryId, attributeEvents(await db.getActivityEvents(repositoryId), storedRoles));
+  const attributedEvents = await db.getActivityEvents(repositoryId);
+  const plans = trackPlanExecution(storedRoles, attributedEvents);
+  await db.setAgentMetrics(repositoryId, computeAllAgentMetrics(storedRoles, attributedEvents, plans));
+}
+
+// Parsed status file and progress log, shown in place of the raw description
+function AgentStateSummary({ state, roleId }: { state: AgentState; roleId: string }) {
+  return (
+    <div className="space-y-1 text-xs" data-testid={`state-role-${roleId}`}>
+      {state.currentTask && (
+        <p className="line-clamp-2">
+          <span className="text-muted-foreground">Now:</span> {state.currentTask}
+        </p>
+      )}
+      <div className="flex flex-wrap items-center gap-1.5 text-muted-foreground">
+        {state.version && (
+          <Badge variant="outline" className="text-[10px] px-1.5 py-0">{state.version}</Badge>
+        )}
+        {state.blockers.length > 0 && (
+          <Badge variant="destructive" className="text-[10px] px-1.5 py-0" title={state.blockers.join("\n")}>
+            {state.blockers.length} blocker{state.blockers.length === 1 ? "" : "s"}
+          </Badge>
+        )}
+        {state.updatedAt && <span>Updated {format(new Date(state.updatedAt), "MMM d")}</span>}
+      </div>
+      {state.completed.length > 0 && (
+        <p className="text-muted-foreground line-clamp-1" title={state.completed.join("\n")}>
+          Done: {state.completed.slice(0, 3).join(" · ")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ActivityEventCard({ event, role, links }: { event: ActivityEvent; role: AgentRole | null; links: RepoLinks }) {
+  const url = event.prNumber != null ? links.pullRequest(event.prNumber) : event.sha ? links.commit(event.sha) : null;
+  return (
+    <Card data-testid={`card-event-${event.id}`}>
+      <CardContent className="flex items-start gap-3 py-3 px-4 flex-wrap">
+        <div className="flex items-center justify-center w-8 h-8 rounded-full bg-muted shrink-0 mt-0.5">
+          {getEventIcon(event.type)}
+        </div>
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-center gap-2 flex-wrap">
+            <p className="text-sm font-medium truncate">
+              {url ? (
+                <a href={url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                  {event.title}
+                </a>
+              ) : event.title}
+            </p>
+            <Badge variant="outline" className="text-xs">
+              {event.type}
+            </Badge>
+            {role && (
+              <Badge
+                variant="secondary"
+                className="text-[10px]"
+                title={event.attributionReason ?? undefined}
+                data-testid={`badge-event-agent-${event.id}`}
+              >
+                {role.name}
+                {event.attributionConfidence != null && ` · ${Math.round(event.attributionConfidence * 100)}%`}
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-3 text-xs text-muted-foreground flex-wrap">
+            {event.author && <span>{event.author}</span>}
+            {event.createdAt && (
+              <span>
+                {formatTimestamp(event.createdAt)}
+              </span>
+            )}
+            {(event.filesChanged ?? 0) > 0 && (
+              <span>{event.filesChanged} files</span>
+            )}
+            {(event.additions ?? 0) > 0 && (
+              <span className="text-green-500">
+                +{event.additions}
+              </span>
+            )}
+            {(event.deletions ?? 0) > 0 && (
+              <span className="text-red-500">
+                -{event.deletions}
+              </span>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function RepositoryPage() {
   const { id } = useParams<{ id: string }>();
   const { toast } = useToast();
   const [activityLimit, setActivityLimit] = useState(50);
+  const [activityAgentFilter, setActivityAgentFilter] = useState<string>("all");
+  const [groupActivityByAgent, setGroupActivityByAgent] = useState(false);
   const [timespan, setTimespan] = useState<string>("all");
   const [liveCounts, setLiveCounts] = useState<{ totalCommits: number; totalPrs: number } | null>(null);
   const [countsLoading, setCountsLoading] = useState(false);
   const [loading, setLoading] = useState(true);
   const [scanning, setScanning] = useState(false);
-  const [scanMessage, setScanMessage] = useState(SCAN_MESSAGES[0]);
-  const scanMsgRef = useRef(0);
+  const [scanEvents, setScanEvents] = useState<ProgressEvent[]>([]);
+  const scanAbortRef = useRef<AbortController | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
+  const [analyzeEvents, setAnalyzeEvents] = useState<ProgressEvent[]>([]);
+  const analyzeAbortRef = useRef<AbortController | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<{ path: string; type: string } | null>(null);
   const [fileSheetOpen, setFileSheetOpen] = useState(false);
   const [activeTab, setActiveTab] = useState("overview");
   const [planListSheetOpen, setPlanListSheetOpen] = useState(false);
   const [selectedRoleForPlans, setSelectedRoleForPlans] = useState<AgentRole | null>(null);
   const [openedFromPlanList, setOpenedFromPlanList] = useState(false);
+  const [layoutSheetOpen, setLayoutSheetOpen] = useState(false);
+  const [promptSheetOpen, setPromptSheetOpen] = useState(false);
+  // Branch or tag to scan next; the scanned one until changed
+  const [scanTarget, setScanTarget] = useState<string | null>(null);
+  const [refs, setRefs] = useState<RefList | null>(null);
+  const [rosterCompareOpen, setRosterCompareOpen] = useState(false);
+  const [selectedAnalysisId, setSelectedAnalysisId] = useState<string | null>(null);
+  const [expandedAnalyses, setExpandedAnalyses] = useState<Set<string>>(new Set());
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [diffSheetOpen, setDiffSheetOpen] = useState(false);
+  const [agentSheetRoleId, setAgentSheetRoleId] = useState<string | null>(null);
+  const [agentAnalyzingId, setAgentAnalyzingId] = useState<string | null>(null);
+  const [agentAnalyzeEvents, setAgentAnalyzeEvents] = useState<ProgressEvent[]>([]);
+  const agentAnalyzeAbortRef = useRef<AbortController | null>(null);
 
-  // Cycle scan status messages while scanning
-  useEffect(() => {
-    if (!scanning) {
-      scanMsgRef.current = 0;
-      setScanMessage(SCAN_MESSAGES[0]);
-      return;
-    }
-    const interval = setInterval(() => {
-      scanMsgRef.current = Math.min(scanMsgRef.current + 1, SCAN_MESSAGES.length - 1);
-      setScanMessage(SCAN_MESSAGES[scanMsgRef.current]);
-    }, 2500);
-    return () => clearInterval(interval);
-  }, [scanning]);
+  // Cancel any in-flight streams when leaving the page
+  useEffect(() => () => {
+    scanAbortRef.current?.abort();
+    analyzeAbortRef.current?.abort();
+    agentAnalyzeAbortRef.current?.abort();
+  }, []);
 
   const [repo, setRepo] = useState<Repository | undefined>();
   const [roles, setRoles] = useState<AgentRole[]>([]);
   const [events, setEvents] = useState<ActivityEvent[]>([]);
-  const [analyses, setAnalyses] = useState<AnalysisResult[]>([]);
+  // Repository-wide analyses; per-agent deep dives are kept apart
+  const [analyses, setAnalyses] = useState<AiAnalysisResult[]>([]);
+  const [agentAnalyses, setAgentAnalyses] = useState<AgentAnalysisResult[]>([]);
 
   const loadData = useCallback(async () => {
     if (!id) return;
@@ -159,7 +354,8 @@ export default function RepositoryPage() {
       setRepo(repoData);
       setRoles(rolesData);
       setEvents(eventsData);
-      setAnalyses(analysesData);
+      setAnalyses(analysesData.filter((a): a is AiAnalysisResult => a.type === "ai_analysis"));
+      setAgentAnalyses(analysesData.filter((a): a is AgentAnalysisResult => a.type === "agent_analysis"));
     } catch (error) {
       console.error("Failed to load repository data:", error);
     } finally {
@@ -192,8 +388,7 @@ export default function RepositoryPage() {
         }
 
         const res = await apiRequest("POST", "/api/github/counts", {
-          owner: repo.owner,
-          name: repo.name,
+          ...sourceParams(repo),
           since,
         });
         const data = await res.json();
@@ -216,7 +411,7 @@ export default function RepositoryPage() {
 
     fetchCounts();
     return () => { cancelled = true; };
-  }, [repo?.id, repo?.owner, repo?.name, timespan]);
+  }, [repo?.id, repo?.owner, repo?.name, repo?.localPath, timespan]);
 
   // Compute since date from timespan for client-side filtering
   const sinceDate = useMemo(() => {
@@ -243,52 +438,246 @@ export default function RepositoryPage() {
 
   const filteredLatestAnalysis = filteredAnalyses[0] ?? null;
 
+  const boundaryViolations = useMemo(() => checkBoundaries(filteredEvents, roles), [filteredEvents, roles]);
+
+  const violationsByRole = useMemo(() => {
+    const byRole = new Map<string, BoundaryViolation[]>();
+    for (const violation of boundaryViolations) {
+      if (!byRole.has(violation.agentRoleId)) byRole.set(violation.agentRoleId, []);
+      byRole.get(violation.agentRoleId)!.push(violation);
+    }
+    return byRole;
+  }, [boundaryViolations]);
+
+  const analysisTrends = useMemo(() => buildAnalysisTrends(analyses, events), [analyses, events]);
+
+  const setAnalysisExpanded = (analysisId: string, expanded: boolean) => {
+    setExpandedAnalyses((prev) => {
+      if (prev.has(analysisId) === expanded) return prev;
+      const next = new Set(prev);
+      if (expanded) next.add(analysisId);
+      else next.delete(analysisId);
+      return next;
+    });
+  };
+
+  const openAnalysisRun = (analysisId: string) => {
+    setSelectedAnalysisId(analysisId);
+    setAnalysisExpanded(analysisId, true);
+    requestAnimationFrame(() => {
+      document.getElementById(`analysis-${analysisId}`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+    });
+  };
+
+  // Keeps the two most recently picked runs
+  const toggleCompare = (analysisId: string, checked: boolean) => {
+    setCompareIds((prev) => checked
+      ? [...prev.filter((x) => x !== analysisId), analysisId].slice(-2)
+      : prev.filter((x) => x !== analysisId));
+  };
+
+  const comparedAnalyses = useMemo(() => {
+    const picked = compareIds.map((cid) => analyses.find((a) => a.id === cid)).filter((a): a is AiAnalysisResult => !!a);
+    return picked.length === 2 ? [picked[0], picked[1]] as [AiAnalysisResult, AiAnalysisResult] : null;
+  }, [compareIds, analyses]);
+
+  // Newest first, like getAnalysisResults
+  const agentAnalysesByRole = useMemo(() => {
+    const byRole = new Map<string, AgentAnalysisResult[]>();
+    for (const analysis of agentAnalyses) {
+      if (!byRole.has(analysis.agentRoleId)) byRole.set(analysis.agentRoleId, []);
+      byRole.get(analysis.agentRoleId)!.push(analysis);
+    }
+    return byRole;
+  }, [agentAnalyses]);
+
+  // Gravity runs, plus the deep dives of the agent owning the open file
+  const fileAnalysisRuns = useMemo<AnalysisRun[]>(() => {
+    const owner = selectedFile ? roles.find((r) => r.files.some((f) => f.path === selectedFile.path)) : undefined;
+    return [
+      ...analyses.map((a) => ({ id: a.id, createdAt: a.createdAt, score: a.score, label: "Gravity" })),
+      ...(owner ? agentAnalysesByRole.get(owner.id) ?? [] : []).map((a) => ({ id: a.id, createdAt: a.createdAt, score: a.score, label: "Health" })),
+    ];
+  }, [selectedFile, roles, analyses, agentAnalysesByRole]);
+
+  const planExecutions = useMemo(() => trackPlanExecution(roles, events), [roles, events]);
+  const planThroughput = useMemo(() => summarizePlanThroughput(planExecutions, sinceDate), [planExecutions, sinceDate]);
+
+  const thrashingFindings = useMemo(() => detectThrashing(filteredEvents, roles), [filteredEvents, roles]);
+
+  const rolesById = useMemo(() => new Map(roles.map((r) => [r.id, r])), [roles]);
+
+  const agentFilteredEvents = useMemo(() => {
+    if (activityAgentFilter === "all") return events;
+    if (activityAgentFilter === "unattributed") return events.filter((e) => !e.agentRoleId);
+    return events.filter((e) => e.agentRoleId === activityAgentFilter);
+  }, [events, activityAgentFilter]);
+
+  const activityGroups = useMemo(() => {
+    const groups = new Map<string, { key: string; label: string; events: ActivityEvent[] }>();
+    for (const event of agentFilteredEvents) {
+      const role = event.agentRoleId ? rolesById.get(event.agentRoleId) : undefined;
+      const key = role?.id ?? "unattributed";
+      if (!groups.has(key)) groups.set(key, { key, label: role?.name ?? "Unattributed", events: [] });
+      groups.get(key)!.events.push(event);
+    }
+    return Array.from(groups.values()).sort((a, b) => b.events.length - a.events.length);
+  }, [agentFilteredEvents, rolesById]);
+
+  // Loaded the first time a branch list is opened
+  const loadRefs = async () => {
+    if (!repo) return;
+    try {
+      const res = await apiRequest("POST", "/api/github/refs", sourceParams(repo));
+      setRefs(await res.json());
+    } catch (error: any) {
+      setRefs({ branches: [], tags: [] });
+      toast({ title: "Failed to load branches", description: error.message, variant: "destructive" });
+    }
+  };
+
   const handleScan = async () => {
     if (!repo) return;
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
+    setScanEvents([]);
     setScanning(true);
     try {
-      const res = await apiRequest("POST", "/api/github/scan", {
-        owner: repo.owner,
-        name: repo.name,
+      // Send what we already know so the server only refetches changed files
+      const branch = scanTarget ?? scannedRef(repo);
+      const scan = await apiStream<ScanResponse>("/api/github/scan", {
+        ...sourceParams(repo),
         defaultBranch: repo.defaultBranch,
-      });
-      const scannedRoles = await res.json();
-      await db.setAgentRoles(repo.id, scannedRoles);
+        branch,
+        layout: repo.layoutConfig ?? undefined,
+        previous: {
+          treeSha: repo.scanTreeSha ?? null,
+          roles: roles.map(({ name, description, boundaries, files, state }) => ({ name, description, boundaries, files, state })),
+        },
+      }, (event) => setScanEvents((prev) => [...prev, event]), controller.signal);
+      await db.setAgentRoles(repo.id, scan.roles);
+      await db.updateRepository(repo.id, { scanTreeSha: scan.treeSha, scanRef: branch });
+      await reattributeActivity(repo.id);
       await loadData();
-      toast({ title: "Agent scan complete" });
+      toast({ title: "Agent scan complete", description: describeScanChanges(scan) });
     } catch (error: any) {
+      if (controller.signal.aborted) {
+        toast({ title: "Scan cancelled" });
+        return;
+      }
       toast({
         title: "Scan failed",
         description: error.message,
         variant: "destructive",
       });
     } finally {
+      scanAbortRef.current = null;
       setScanning(false);
     }
   };
 
+  const handleSync = async () => {
+    if (!repo) return;
+    setSyncing(true);
+    setSyncStatus(null);
+    try {
+      const start = sinceDate?.toISOString() ?? null;
+      const previous = repo.activitySync;
+      // Only fetch what is newer than the last sync when that sync already covers the selected window
+      const incremental = !!previous && (previous.from === null || (start !== null && previous.from <= start));
+      const since = incremental ? previous!.through : start;
+      const startedAt = new Date().toISOString();
+
+      let cursor: SyncCursor | null = null;
+      let added = 0;
+      let updated = 0;
+      do {
+        const res = await apiRequest("POST", "/api/github/sync", {
+          ...sourceParams(repo),
+          since: since ?? undefined,
+          cursor,
+        });
+        const page: { events: NewActivityEvent[]; cursor: SyncCursor | null } = await res.json();
+        const counts = await db.upsertActivityEvents(repo.id, page.events);
+        added += counts.added;
+        updated += counts.updated;
+        setSyncStatus(`${added + updated} events`);
+        cursor = page.cursor;
+      } while (cursor);
+
+      await db.updateRepository(repo.id, {
+        activitySync: { from: incremental ? previous!.from : start, through: startedAt },
+      });
+
+      // Touched paths feed attribution, so fetch them before re-attributing
+      const enrichment = await enrichActivity(repo, (done, total) => {
+        if (total > 0) setSyncStatus(`details ${done}/${total}`);
+      });
+      await reattributeActivity(repo.id);
+      await loadData();
+      toast({
+        title: "Activity synced",
+        description: [
+          added + updated > 0 ? `${added} new, ${updated} updated` : "Already up to date",
+          enrichment.failed > 0 ? `details unavailable for ${enrichment.failed}` : null,
+        ].filter(Boolean).join("; "),
+      });
+    } catch (error: any) {
+      toast({
+        title: "Sync failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSyncing(false);
+    }
+  };
+
   const handleAnalyze = async () => {
     if (!repo) return;
+    const controller = new AbortController();
+    analyzeAbortRef.current = controller;
+    setAnalyzeEvents([]);
     setAnalyzing(true);
     try {
-      const res = await apiRequest("POST", "/api/github/analyze", {
-        owner: repo.owner,
-        name: repo.name,
-      });
-      const result = await res.json();
+      const previous = analyses[0] ?? null;
+      const result = await apiStream<any>("/api/github/analyze", {
+        ...sourceParams(repo),
+        promptTemplate: repo.promptTemplate ?? undefined,
+        roles: roles.map((r) => ({
+          name: r.name,
+          category: r.category,
+          description: r.description,
+          boundaries: r.boundaries,
+          statusUpdatedAt: r.files.find((f) => f.type === "status")?.date ?? null,
+          lastActiveAt: r.lastActiveAt,
+          statusFile: r.files.find((f) => f.type === "status")?.path ?? null,
+          planFiles: r.files
+            .filter((f) => f.type === "plan")
+            .sort((a, b) => (b.date ?? "").localeCompare(a.date ?? ""))
+            .slice(0, ANALYSIS_PLANS_PER_AGENT)
+            .map((f) => f.path),
+        })),
+        defaultBranch: repo.defaultBranch,
+        branch: scannedRef(repo),
+        previousAnalysis: previous
+          ? { createdAt: previous.createdAt, score: previous.score, summary: previous.summary }
+          : undefined,
+        grounding: [
+          thrashingFindings.length > 0 ? `Thrashing:\n${summarizeThrashing(thrashingFindings)}` : null,
+          boundaryViolations.length > 0 ? `Boundary violations:\n${summarizeBoundaryViolations(boundaryViolations)}` : null,
+        ].filter(Boolean).join("\n\n") || undefined,
+      }, (event) => setAnalyzeEvents((prev) => [...prev, event]), controller.signal);
 
-      await db.setActivityEvents(repo.id, result.activityEvents);
+      await db.upsertActivityEvents(repo.id, result.activityEvents);
+      await reattributeActivity(repo.id);
 
       await db.createAnalysisResult({
         repositoryId: repo.id,
         type: "ai_analysis",
         summary: result.summary,
         score: result.gravityScore,
-        details: {
-          fullResponse: result.fullResponse,
-          commitsAnalyzed: result.commitsAnalyzed,
-          prsAnalyzed: result.prsAnalyzed,
-        },
+        details: parseAiAnalysisDetails(result),
       });
 
       await db.updateRepository(repo.id, {
@@ -301,16 +690,87 @@ export default function RepositoryPage() {
       await loadData();
       toast({ title: "Analysis complete" });
     } catch (error: any) {
+      if (controller.signal.aborted) {
+        toast({ title: "Analysis cancelled" });
+        return;
+      }
       toast({
         title: "Analysis failed",
         description: error.message,
         variant: "destructive",
       });
     } finally {
+      analyzeAbortRef.current = null;
       setAnalyzing(false);
     }
   };
 
+  const handleAnalyzeAgent = async (role: AgentRole) => {
+    if (!repo) return;
+    const controller = new AbortController();
+    agentAnalyzeAbortRef.current = controller;
+    setAgentSheetRoleId(role.id);
+    setAgentAnalyzeEvents([]);
+    setAgentAnalyzingId(role.id);
+    try {
+      const plans = role.files
+        .filter((f) => f.type === "plan")
+        .sort((a, b) => (b.date ?? "").localeCompare(a.date ?? ""))
+        .slice(0, AGENT_ANALYSIS_PLANS);
+      const attributed = events
+        .filter((e) => e.agentRoleId === role.id && (e.type === "commit" || e.type === "pull_request"))
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(0, AGENT_ANALYSIS_MAX_EVENTS);
+
+      const result = await apiStream<any>("/api/github/analyze-agent", {
+        ...sourceParams(repo),
+        defaultBranch: repo.defaultBranch,
+        branch: scannedRef(repo),
+        agent: { name: role.name, category: role.category, description: role.description, boundaries: role.boundaries },
+        files: [
+          ...role.files.filter((f) => ["planning-prompt", "execution-prompt", "prompt", "status", "progress"].includes(f.type)),
+          ...plans,
+        ].map(({ path, type }) => ({ path, type })),
+        events: attributed.map((e) => ({
+          type: e.type,
+          title: e.title,
+          description: e.description,
+          sha: e.sha,
+          prNumber: e.prNumber,
+          author: e.author,
+          state: e.state ?? null,
+          branch: e.branch ?? null,
+          files: e.files ?? null,
+          createdAt: e.createdAt,
+        })),
+      }, (event) => setAgentAnalyzeEvents((prev) => [...prev, event]), controller.signal);
+
+      await db.createAnalysisResult({
+        repositoryId: repo.id,
+        type: "agent_analysis",
+        agentRoleId: role.id,
+        summary: result.summary,
+        score: result.healthScore,
+        details: parseAgentAnalysisDetails(result),
+      });
+      await loadData();
+      toast({ title: `${role.name} analysis complete` });
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        toast({ title: "Agent analysis cancelled" });
+        return;
+      }
+      toast({
+        title: "Agent analysis failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      agentAnalyzeAbortRef.current = null;
+      setAgentAnalyzingId(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="p-6 space-y-6">
@@ -339,6 +799,7 @@ export default function RepositoryPage() {
   }
 
   const latestAnalysis = filteredLatestAnalysis;
+  const links = repoLinks(repo);
 
   return (
     <div className="p-6 space-y-6" data-testid="page-repository">
@@ -366,6 +827,38 @@ export default function RepositoryPage() {
           )}
         </div>
         <div className="flex items-center gap-2 flex-wrap">
+          <Button
+            variant="ghost"
+            onClick={() => setLayoutSheetOpen(true)}
+            data-testid="button-layout-rules"
+          >
+            <Settings2 className="w-4 h-4" />
+            Layout Rules
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => setPromptSheetOpen(true)}
+            data-testid="button-prompt-template"
+          >
+            <FileText className="w-4 h-4" />
+            Prompt
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => setRosterCompareOpen(true)}
+            data-testid="button-compare-branches"
+          >
+            <GitCompare className="w-4 h-4" />
+            Compare Branches
+          </Button>
+          <RefSelect
+            value={scanTarget ?? scannedRef(repo)}
+            onValueChange={setScanTarget}
+            refs={refs}
+            onLoadRefs={loadRefs}
+            disabled={scanning}
+            testId="select-scan-ref"
+          />
           <Button
             variant="outline"
             onClick={handleScan}
@@ -394,6 +887,27 @@ export default function RepositoryPage() {
         </div>
       </div>
 
+      <AnimatePresence>
+        {analyzing && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.2 }}
+          >
+            <Card className="border-primary/20 bg-primary/5" data-testid="card-analysis-progress">
+              <CardContent className="py-4">
+                <ProgressLog
+                  events={analyzeEvents}
+                  phases={ANALYZE_PHASES}
+                  onCancel={() => analyzeAbortRef.current?.abort()}
+                />
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
         <TabsList data-testid="tabs-repo-detail">
           <TabsTrigger value="overview" data-testid="tab-overview">
@@ -519,7 +1033,7 @@ export default function RepositoryPage() {
                 <GravityVisualization
                   repoName={repo.name}
                   roles={roles}
-                  agentStates={latestAnalysis?.details?.analysis?.agentStates}
+                  agentStates={latestAnalysis?.details.analysis?.agentStates}
                   className="h-full"
                   onAgentClick={(roleId) => {
                     const role = roles.find(r => r.id === roleId);
@@ -533,6 +1047,83 @@ export default function RepositoryPage() {
             </Card>
           </motion.div>
 
+          {/* Plan throughput — plans linked to the PRs that executed them */}
+          {planExecutions.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.3, delay: 0.17 }}
+            >
+              <Card data-testid="card-plan-throughput">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <FileText className="w-5 h-5 text-primary" /> Plan Throughput
+                  </CardTitle>
+                  <CardDescription>
+                    {planThroughput.written} plan{planThroughput.written === 1 ? "" : "s"} written{sinceDate ? " in this period" : ""}
+                    {planThroughput.executionRate !== null && `, ${Math.round(planThroughput.executionRate * 100)}% executed`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-3 md:grid-cols-6 gap-3 text-xs">
+                    {[
+                      { label: "Merged", value: planThroughput.executed },
+                      { label: "In progress", value: planThroughput.inProgress },
+                      { label: "Pending", value: planThroughput.pending },
+                      { label: "Abandoned", value: planThroughput.abandoned },
+                      { label: "Median to merge", value: formatCycleTime(planThroughput.medianTimeToExecutionHours) },
+                      { label: "Merged per week", value: planThroughput.executedPerWeek ?? "—" },
+                    ].map((item) => (
+                      <div key={item.label}>
+                        <p className="text-muted-foreground">{item.label}</p>
+                        <p className="text-base font-semibold">{item.value}</p>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
+          {/* Boundary check — deterministic, from attributed commits/PRs */}
+          {boundaryViolations.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.3, delay: 0.18 }}
+            >
+              <Card data-testid="card-boundary-violations">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <ShieldAlert className="w-5 h-5 text-destructive" /> Boundary Check
+                  </CardTitle>
+                  <CardDescription>
+                    {boundaryViolations.length} file{boundaryViolations.length === 1 ? "" : "s"} touched outside agent boundaries
+                    {" "}across {violationsByRole.size} agent{violationsByRole.size === 1 ? "" : "s"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <BoundaryViolationList violations={boundaryViolations} repo={repo} />
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
+          {/* Detected Thrashing — from stored history, independent of any AI analysis */}
+          {thrashingFindings.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.3, delay: 0.19 }}
+            >
+              <Card data-testid="card-thrashing">
+                <CardContent className="pt-6">
+                  <ThrashingFindings findings={thrashingFindings} repo={repo} />
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
           {/* Latest Analysis — enriched */}
           {latestAnalysis ? (
             <motion.div
@@ -554,7 +1145,7 @@ export default function RepositoryPage() {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {(() => {
-                    const analysisData = latestAnalysis.details?.analysis as HighFidelityAnalysis | undefined;
+                    const analysisData = latestAnalysis.details.analysis;
                     if (analysisData) {
                       return (
                         <div className="space-y-6">
@@ -663,13 +1254,13 @@ export default function RepositoryPage() {
                         <span className="text-lg font-bold">{latestAnalysis.score}</span>
                       </div>
                     )}
-                    {latestAnalysis.details?.commitsAnalyzed != null && (
+                    {latestAnalysis.details.commitsAnalyzed != null && (
                       <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
                         <GitCommit className="w-3.5 h-3.5" />
                         <span>{latestAnalysis.details.commitsAnalyzed} commits analyzed</span>
                       </div>
                     )}
-                    {latestAnalysis.details?.prsAnalyzed != null && (
+                    {latestAnalysis.details.prsAnalyzed != null && (
                       <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
                         <GitPullRequest className="w-3.5 h-3.5" />
                         <span>{latestAnalysis.details.prsAnalyzed} PRs analyzed</span>
@@ -738,17 +1329,13 @@ export default function RepositoryPage() {
                         </circle>
                       </svg>
                     </div>
-                    <div className="text-center space-y-2">
-                      <motion.p
-                        key={scanMessage}
-                        initial={{ opacity: 0, y: 8 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        exit={{ opacity: 0, y: -8 }}
-                        className="text-sm font-medium text-primary"
-                      >
-                        {scanMessage}
-                      </motion.p>
-                      <p className="text-xs text-muted-foreground">
+                    <div className="w-full max-w-md space-y-2">
+                      <ProgressLog
+                        events={scanEvents}
+                        phases={SCAN_PHASES}
+                        onCancel={() => scanAbortRef.current?.abort()}
+                      />
+                      <p className="text-xs text-muted-foreground text-center">
                         This may take a minute for large repositories
                       </p>
                     </div>
@@ -781,20 +1368,98 @@ export default function RepositoryPage() {
                               {cat.label}
                             </Badge>
                           </div>
-                          {role.description && (
+                          {role.state ? (
+                            <AgentStateSummary state={role.state} roleId={role.id} />
+                          ) : role.description && (
                             <CardDescription className="text-xs line-clamp-2">
                               {role.description}
                             </CardDescription>
                           )}
                         </div>
-                        <Badge
-                          variant={getStatusVariant(role.status)}
-                          data-testid={`badge-status-${role.id}`}
-                        >
-                          {role.status ?? "unknown"}
-                        </Badge>
+                        <div className="flex items-center gap-1.5">
+                          <Badge
+                            variant={getStatusVariant(role.status)}
+                            data-testid={`badge-status-${role.id}`}
+                          >
+                            {role.status ?? "unknown"}
+                          </Badge>
+                          {agentAnalysesByRole.get(role.id)?.[0]?.score != null && (
+                            <Badge variant="outline" data-testid={`badge-health-${role.id}`}>
+                              Health {agentAnalysesByRole.get(role.id)![0].score}
+                            </Badge>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-xs"
+                            onClick={() => agentAnalysesByRole.has(role.id) || agentAnalyzingId === role.id
+                              ? setAgentSheetRoleId(role.id)
+                              : handleAnalyzeAgent(role)}
+                            disabled={agentAnalyzingId !== null && agentAnalyzingId !== role.id}
+                            data-testid={`button-analyze-agent-${role.id}`}
+                          >
+                            {agentAnalyzingId === role.id ? (
+                              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                            ) : (
+                              <Microscope className="w-3.5 h-3.5" />
+                            )}
+                            {agentAnalysesByRole.has(role.id) ? "Deep Dive" : "Analyze Agent"}
+                          </Button>
+                        </div>
                       </CardHeader>
                       <CardContent className="space-y-3">
+                        {role.metrics && (
+                          <div className="grid grid-cols-3 gap-2 text-xs" data-testid={`metrics-role-${role.id}`}>
+                            <div>
+                              <p className="text-muted-foreground">PRs</p>
+                              <p className="font-medium">
+                                {role.metrics.prCount}
+                                {role.metrics.mergeRate !== null && (
+                                  <span className="text-muted-foreground font-normal"> · {Math.round(role.metrics.mergeRate * 100)}% merged</span>
+                                )}
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">Median cycle</p>
+                              <p className="font-medium">{formatCycleTime(role.metrics.medianCycleTimeHours)}</p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">Plans executed</p>
+                              <p className="font-medium">{role.metrics.plansExecuted}/{role.metrics.plansWritten}</p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">Commits</p>
+                              <p className="font-medium">{role.metrics.commitCount}</p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">Lines</p>
+                              <p className="font-medium">
+                                <span className="text-green-500">+{role.metrics.linesAdded}</span>{" "}
+                                <span className="text-red-500">-{role.metrics.linesDeleted}</span>
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">Last active</p>
+                              <p className="font-medium">
+                                {role.metrics.lastActiveAt ? format(new Date(role.metrics.lastActiveAt), "MMM d") : "—"}
+                              </p>
+                            </div>
+                          </div>
+                        )}
+                        {(violationsByRole.get(role.id)?.length ?? 0) > 0 && (
+                          <div className="space-y-1.5" data-testid={`violations-role-${role.id}`}>
+                            <p className="flex items-center gap-1.5 text-xs font-medium text-destructive">
+                              <ShieldAlert className="w-3.5 h-3.5" />
+                              {violationsByRole.get(role.id)!.length} boundary violation{violationsByRole.get(role.id)!.length === 1 ? "" : "s"}
+                            </p>
+                            <BoundaryViolationList
+                              violations={violationsByRole.get(role.id)!}
+                              repo={repo}
+                              showAgent={false}
+                              limit={3}
+                            />
+                          </div>
+                        )}
                         {/* Attributed files */}
                         {role.files && role.files.length > 0 && (() => {
                           const MAX_VISIBLE = 5;
@@ -890,64 +1555,94 @@ export default function RepositoryPage() {
         </TabsContent>
 
         <TabsContent value="activity" className="space-y-4">
+          <div className="flex items-center justify-between gap-3 flex-wrap">
+            <span className="text-xs text-muted-foreground" data-testid="text-activity-synced">
+              {repo.activitySync
+                ? `Synced ${repo.activitySync.from ? `from ${formatTimestamp(repo.activitySync.from)} ` : ""}through ${formatTimestamp(repo.activitySync.through)}`
+                : "Activity not synced yet"}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSync}
+              disabled={syncing}
+              data-testid="button-sync-activity"
+            >
+              {syncing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              {syncing ? `Syncing${syncStatus ? ` (${syncStatus})` : ""}...` : "Sync Activity"}
+            </Button>
+          </div>
           {events.length > 0 ? (
-            <ScrollArea className="h-[600px]">
-              <div className="space-y-2 pr-4">
-                {events.slice(0, activityLimit).map((event) => (
-                  <Card key={event.id} data-testid={`card-event-${event.id}`}>
-                    <CardContent className="flex items-start gap-3 py-3 px-4 flex-wrap">
-                      <div className="flex items-center justify-center w-8 h-8 rounded-full bg-muted shrink-0 mt-0.5">
-                        {getEventIcon(event.type)}
-                      </div>
-                      <div className="flex-1 min-w-0 space-y-1">
-                        <div className="flex items-center gap-2 flex-wrap">
-                          <p className="text-sm font-medium truncate">
-                            {event.title}
-                          </p>
-                          <Badge variant="outline" className="text-xs">
-                            {event.type}
-                          </Badge>
-                        </div>
-                        <div className="flex items-center gap-3 text-xs text-muted-foreground flex-wrap">
-                          {event.author && <span>{event.author}</span>}
-                          {event.createdAt && (
-                            <span>
-                              {formatTimestamp(event.createdAt)}
-                            </span>
-                          )}
-                          {(event.filesChanged ?? 0) > 0 && (
-                            <span>{event.filesChanged} files</span>
-                          )}
-                          {(event.additions ?? 0) > 0 && (
-                            <span className="text-green-500">
-                              +{event.additions}
-                            </span>
-                          )}
-                          {(event.deletions ?? 0) > 0 && (
-                            <span className="text-red-500">
-                              -{event.deletions}
-                            </span>
-                          )}
+            <>
+              <div className="flex items-center gap-3 flex-wrap" data-testid="activity-filters">
+                <Select value={activityAgentFilter} onValueChange={setActivityAgentFilter}>
+                  <SelectTrigger className="w-[220px] h-8 text-xs" data-testid="select-activity-agent">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All agents</SelectItem>
+                    <SelectItem value="unattributed">Unattributed</SelectItem>
+                    {roles.map((role) => (
+                      <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ToggleGroup
+                  type="single"
+                  value={groupActivityByAgent ? "agent" : "time"}
+                  onValueChange={(val) => { if (val) setGroupActivityByAgent(val === "agent"); }}
+                  size="sm"
+                  variant="outline"
+                  className="gap-0.5"
+                >
+                  <ToggleGroupItem value="time" className="text-xs px-3 h-8" data-testid="toggle-activity-timeline">
+                    Timeline
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="agent" className="text-xs px-3 h-8" data-testid="toggle-activity-by-agent">
+                    By agent
+                  </ToggleGroupItem>
+                </ToggleGroup>
+                <span className="text-xs text-muted-foreground">
+                  {agentFilteredEvents.length} event{agentFilteredEvents.length === 1 ? "" : "s"}
+                </span>
+              </div>
+              <ScrollArea className="h-[600px]">
+                <div className="space-y-2 pr-4">
+                  {groupActivityByAgent ? (
+                    activityGroups.map((group) => (
+                      <div key={group.key} className="space-y-2 pb-3">
+                        <div className="flex items-center gap-2 pt-1">
+                          <h4 className="text-sm font-semibold">{group.label}</h4>
+                          <Badge variant="secondary" className="text-[10px]">{group.events.length}</Badge>
                         </div>
+                        {group.events.slice(0, activityLimit).map((event) => (
+                          <ActivityEventCard key={event.id} event={event} role={null} links={links} />
+                        ))}
                       </div>
-                    </CardContent>
-                  </Card>
-                ))}
-                {events.length > activityLimit && (
-                  <div className="flex justify-center pt-2">
-                    <Button
-                      variant="outline"
-                      onClick={() =>
-                        setActivityLimit((prev) => prev + 50)
-                      }
-                      data-testid="button-load-more-events"
-                    >
-                      Load More
-                    </Button>
-                  </div>
-                )}
-              </div>
-            </ScrollArea>
+                    ))
+                  ) : (
+                    agentFilteredEvents.slice(0, activityLimit).map((event) => (
+                      <ActivityEventCard key={event.id} event={event} role={rolesById.get(event.agentRoleId ?? "") ?? null} links={links} />
+                    ))
+                  )}
+                  {(groupActivityByAgent
+                    ? activityGroups.some((g) => g.events.length > activityLimit)
+                    : agentFilteredEvents.length > activityLimit) && (
+                    <div className="flex justify-center pt-2">
+                      <Button
+                        variant="outline"
+                        onClick={() =>
+                          setActivityLimit((prev) => prev + 50)
+                        }
+                        data-testid="button-load-more-events"
+                      >
+                        Load More
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </ScrollArea>
+            </>
           ) : (
             <Card data-testid="card-no-activity">
               <CardContent className="flex flex-col items-center justify-center py-12 space-y-3">
@@ -963,21 +1658,57 @@ export default function RepositoryPage() {
         </TabsContent>
 
         <TabsContent value="analyses" className="space-y-4">
+          <AnalysisTrends points={analysisTrends} selectedId={selectedAnalysisId} onSelect={openAnalysisRun} />
+          {analyses.length > 1 && (
+            <div className="flex items-center justify-between gap-3 flex-wrap" data-testid="analysis-compare-bar">
+              <span className="text-xs text-muted-foreground">
+                {compareIds.length === 0 ? "Select two runs to compare" : `${compareIds.length} of 2 runs selected`}
+              </span>
+              <div className="flex items-center gap-2">
+                {compareIds.length > 0 && (
+                  <Button variant="ghost" size="sm" onClick={() => setCompareIds([])} data-testid="button-clear-compare">
+                    Clear
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!comparedAnalyses}
+                  onClick={() => setDiffSheetOpen(true)}
+                  data-testid="button-compare-analyses"
+                >
+                  <GitCompare className="w-4 h-4" />
+                  Compare
+                </Button>
+              </div>
+            </div>
+          )}
           {analyses.length > 0 ? (
             <div className="space-y-3">
               {analyses.map((analysis, index) => (
                 <motion.div
                   key={analysis.id}
+                  id={`analysis-${analysis.id}`}
+                  className="scroll-mt-4"
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ duration: 0.3, delay: index * 0.05 }}
                 >
                   <Card
                     data-testid={`card-analysis-${analysis.id}`}
+                    className={selectedAnalysisId === analysis.id ? "ring-2 ring-primary/60" : undefined}
                   >
                     <CardContent className="py-4 px-5 space-y-2">
                       <div className="flex items-center justify-between gap-3 flex-wrap">
                         <div className="flex items-center gap-2 flex-wrap">
+                          {analyses.length > 1 && (
+                            <Checkbox
+                              checked={compareIds.includes(analysis.id)}
+                              onCheckedChange={(checked) => toggleCompare(analysis.id, checked === true)}
+                              aria-label="Select for comparison"
+                              data-testid={`checkbox-compare-${analysis.id}`}
+                            />
+                          )}
                           <Badge variant="outline">
                             {analysis.type}
                           </Badge>
@@ -998,42 +1729,50 @@ export default function RepositoryPage() {
                           {analysis.summary}
                         </ReactMarkdown>
                       </div>
-                      {analysis.details != null && (
-                        <div className="pt-2 space-y-4">
-                          <div className="flex items-center gap-3 text-xs text-muted-foreground flex-wrap">
-                            {(analysis.details as any).commitsAnalyzed != null && (
-                              <div className="flex items-center gap-1.5">
-                                <GitCommit className="w-3.5 h-3.5" />
-                                <span>
-                                  {(analysis.details as any).commitsAnalyzed} commits analyzed
-                                </span>
-                              </div>
-                            )}
-                            {(analysis.details as any).prsAnalyzed != null && (
-                              <div className="flex items-center gap-1.5">
-                                <GitPullRequest className="w-3.5 h-3.5" />
-                                <span>
-                                  {(analysis.details as any).prsAnalyzed} PRs analyzed
-                                </span>
-                              </div>
-                            )}
-                          </div>
-                          {(analysis.details as any).fullResponse && (
-                            <details className="text-sm border rounded-md open:bg-muted/30">
-                              <summary className="cursor-pointer font-medium p-3 hover:bg-muted/50 rounded-md transition-colors">
-                                View Full Analysis
-                              </summary>
-                              <div className="p-4 pt-2 border-t mt-1">
-                                <article className="prose prose-sm dark:prose-invert max-w-none prose-headings:scroll-mt-4 prose-pre:bg-muted prose-pre:text-foreground prose-code:text-foreground prose-code:before:content-none prose-code:after:content-none">
-                                  <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                                    {(analysis.details as any).fullResponse}
-                                  </ReactMarkdown>
-                                </article>
-                              </div>
-                            </details>
+                      <div className="pt-2 space-y-4">
+                        <div className="flex items-center gap-3 text-xs text-muted-foreground flex-wrap">
+                          {analysis.details.commitsAnalyzed != null && (
+                            <div className="flex items-center gap-1.5">
+                              <GitCommit className="w-3.5 h-3.5" />
+                              <span>
+                                {analysis.details.commitsAnalyzed} commits analyzed
+                              </span>
+                            </div>
+                          )}
+                          {analysis.details.prsAnalyzed != null && (
+                            <div className="flex items-center gap-1.5">
+                              <GitPullRequest className="w-3.5 h-3.5" />
+                              <span>
+                                {analysis.details.prsAnalyzed} PRs analyzed
+                              </span>
+                            </div>
+                          )}
+                          {analysis.details.promptTemplate && (
+                            <div className="flex items-center gap-1.5" data-testid={`text-prompt-template-${analysis.id}`}>
+                              <FileText className="w-3.5 h-3.5" />
+                              <span>{describePromptTemplate(analysis.details.promptTemplate)}</span>
+                            </div>
                           )}
                         </div>
-                      )}
+                        {analysis.details.fullResponse && (
+                          <details
+                            className="text-sm border rounded-md open:bg-muted/30"
+                            open={expandedAnalyses.has(analysis.id)}
+                            onToggle={(e) => setAnalysisExpanded(analysis.id, e.currentTarget.open)}
+                          >
+                            <summary className="cursor-pointer font-medium p-3 hover:bg-muted/50 rounded-md transition-colors">
+                              View Full Analysis
+                            </summary>
+                            <div className="p-4 pt-2 border-t mt-1">
+                              <article className="prose prose-sm dark:prose-invert max-w-none prose-headings:scroll-mt-4 prose-pre:bg-muted prose-pre:text-foreground prose-code:text-foreground prose-code:before:content-none prose-code:after:content-none">
+                                <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                                  {analysis.details.fullResponse}
+                                </ReactMarkdown>
+                              </article>
+                            </div>
+                          </details>
+                        )}
+                      </div>
                     </CardContent>
                   </Card>
                 </motion.div>
@@ -1065,32 +1804,73 @@ export default function RepositoryPage() {
           )}
         </TabsContent>
       </Tabs>
+      <AnalysisDiffSheet
+        open={diffSheetOpen}
+        onOpenChange={setDiffSheetOpen}
+        analyses={comparedAnalyses}
+      />
+      <AgentAnalysisSheet
+        open={agentSheetRoleId !== null}
+        onOpenChange={(open) => { if (!open) setAgentSheetRoleId(null); }}
+        role={agentSheetRoleId ? rolesById.get(agentSheetRoleId) ?? null : null}
+        analyses={agentSheetRoleId ? agentAnalysesByRole.get(agentSheetRoleId) ?? [] : []}
+        running={agentSheetRoleId !== null && agentAnalyzingId === agentSheetRoleId}
+        runDisabled={agentAnalyzingId !== null}
+        progressEvents={agentAnalyzeEvents}
+        onRun={() => {
+          const role = agentSheetRoleId ? rolesById.get(agentSheetRoleId) : undefined;
+          if (role) handleAnalyzeAgent(role);
+        }}
+        onCancel={() => agentAnalyzeAbortRef.current?.abort()}
+      />
       <FileContentSheet
         open={fileSheetOpen}
         onOpenChange={setFileSheetOpen}
         filePath={selectedFile?.path ?? null}
         fileType={selectedFile?.type ?? null}
-        repoOwner={repo.owner}
-        repoName={repo.name}
-        repoBranch={repo.defaultBranch || "main"}
+        repo={repo}
+        repoBranch={scannedRef(repo)}
+        refs={refs}
+        onLoadRefs={loadRefs}
+        analysisRuns={fileAnalysisRuns}
         onBack={openedFromPlanList ? () => {
           setFileSheetOpen(false);
           setPlanListSheetOpen(true);
         } : undefined}
       />
+      <RosterCompareSheet
+        open={rosterCompareOpen}
+        onOpenChange={setRosterCompareOpen}
+        repo={repo}
+        refs={refs}
+        onLoadRefs={loadRefs}
+        defaultHead={scannedRef(repo)}
+      />
+      <LayoutRulesSheet
+        open={layoutSheetOpen}
+        onOpenChange={setLayoutSheetOpen}
+        repo={repo}
+        branch={scanTarget ?? scannedRef(repo)}
+        onSave={async (layoutConfig) => {
+          await db.updateRepository(repo.id, { layoutConfig });
+          await loadData();
+        }}
+      />
+      <PromptTemplateSheet
+        open={promptSheetOpen}
+        onOpenChange={setPromptSheetOpen}
+        repo={repo}
+        onSave={async (promptTemplate) => {
+          await db.updateRepository(repo.id, { promptTemplate });
+          await loadData();
+        }}
+      />
       <PlanListSheet
         open={planListSheetOpen}
         onOpenChange={setPlanListSheetOpen}
-        files={selectedRoleForPlans?.files?.filter(f => f.type === "plan") ?? null}
-        prEvents={events.filter(e => {
-          if (e.type !== "pull_request" || !selectedRoleForPlans) return false;
-          const roleName = selectedRoleForPlans.name.toLowerCase();
-          const title = (e.title || "").toLowerCase();
-          const desc = (e.description || "").toLowerCase();
-          return title.includes(roleName) || desc.includes(roleName);
-        })}
-        repoOwner={repo.owner}
-        repoName={repo.name}
+        plans={selectedRoleForPlans ? planExecutions.filter((p) => p.agentRoleId === selectedRoleForPlans.id) : null}
+        prEvents={events.filter(e => e.type === "pull_request" && !!selectedRoleForPlans && e.agentRoleId === selectedRoleForPlans.id)}
+        repo={repo}
         roleName={selectedRoleForPlans?.name}
         onSelectFile={(file) => {
           setSelectedFile({ path: file.path, type: file.type });
@@ -31,8 +31,8 @@ export default function SettingsPage() {
   >("idle");
   const [githubUsername, setGithubUsername] = useState<string | null>(null);
   const [aiTestStatus, setAiTestStatus] = useState<
-    "idle" | "loading" | "success" | "error"
-  >("idle");
+    Record<string, "idle" | "loading" | "success" | "error">
+  >({});
 
   const { data: settings, isLoading } = useQuery<Settings>({
     queryKey: ["/api/settings"],
@@ -56,17 +56,17 @@ export default function SettingsPage() {
     }
   };
 
-  const handleTestAi = async () => {
-    setAiTestStatus("loading");
+  const handleTestAi = async (providerId: string) => {
+    setAiTestStatus((prev) => ({ ...prev, [providerId]: "loading" }));
     try {
-      await apiRequest("GET", "/api/settings/test-ai");
-      setAiTestStatus("success");
-      toast({ title: "AI provider connection successful" });
-    } catch {
-      setAiTestStatus("error");
+      await apiRequest("GET", `/api/settings/test-ai?provider=${encodeURIComponent(providerId)}`);
+      setAiTestStatus((prev) => ({ ...prev, [providerId]: "success" }));
+      toast({ title: `AI provider "${providerId}" connection successful` });
+    } catch (error: any) {
+      setAiTestStatus((prev) => ({ ...prev, [providerId]: "error" }));
       toast({
-        title: "AI connection failed",
-        description: "Check your AI_API_KEY and AI_PROVIDER in the .env file",
+        title: `AI provider "${providerId}" connection failed`,
+        description: error.message,
         variant: "destructive",
       });
     }
@@ -113,6 +113,16 @@ export default function SettingsPage() {
             <p>AI_API_KEY=sk-your_key_here</p>
             <p>AI_MODEL=gpt-4o</p>
           </div>
+          <p className="text-xs text-muted-foreground mt-3">
+            Additional providers (OpenAI-compatible servers such as Ollama or llama.cpp, Azure OpenAI) go in{" "}
+            <code className="bg-muted px-1 py-0.5 rounded">ai-providers.json</code>; see the README.
+          </p>
+          <p className="text-xs text-muted-foreground mt-1" data-testid="text-other-hosts">
+            GitLab repositories are read from <code className="bg-muted px-1 py-0.5 rounded">{settings?.gitlabUrl ?? "GITLAB_URL"}</code>
+            {settings?.giteaUrl
+              ? <> and Gitea repositories from <code className="bg-muted px-1 py-0.5 rounded">{settings.giteaUrl}</code>.</>
+              : <>; set <code className="bg-muted px-1 py-0.5 rounded">GITEA_URL</code> to add Gitea repositories.</>}
+          </p>
         </CardContent>
       </Card>
 
@@ -127,7 +137,11 @@ export default function SettingsPage() {
               Personal Access Token for repository access
             </CardDescription>
           </div>
-          {settings?.githubPat ? (
+          {settings?.githubMode === "fixture" ? (
+            <Badge variant="secondary" data-testid="badge-github-status">
+              Fixtures
+            </Badge>
+          ) : settings?.githubPat ? (
             <Badge variant="default" className="bg-green-600" data-testid="badge-github-status">
               <Shield className="w-3 h-3 mr-1" />
               Configured
@@ -139,6 +153,14 @@ export default function SettingsPage() {
           )}
         </CardHeader>
         <CardContent className="space-y-4">
+          {settings && settings.githubMode !== "live" && (
+            <p className="text-sm text-muted-foreground" data-testid="text-github-mode">
+              {settings.githubMode === "fixture"
+                ? "GITHUB_MODE=fixture: requests are answered from recorded fixtures, no token or network needed."
+                : "GITHUB_MODE=record: every GitHub response is saved as a fixture."}
+            </p>
+          )}
+
           {settings?.githubPat && (
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <span>Token:</span>
@@ -162,7 +184,7 @@ export default function SettingsPage() {
               type="button"
               variant="outline"
               onClick={handleTestGithub}
-              disabled={githubTestStatus === "loading" || !settings?.githubPat}
+              disabled={githubTestStatus === "loading" || (!settings?.githubPat && settings?.githubMode !== "fixture")}
               data-testid="button-test-github"
             >
               {githubTestStatus === "loading" ? (
@@ -195,10 +217,10 @@ export default function SettingsPage() {
               AI model for architecture analysis
             </CardDescription>
           </div>
-          {settings?.aiApiKey ? (
+          {settings?.aiProviders.length ? (
             <Badge variant="default" className="bg-green-600" data-testid="badge-ai-status">
               <Shield className="w-3 h-3 mr-1" />
-              Configured
+              {settings.aiProviders.length} Configured
             </Badge>
           ) : (
             <Badge variant="destructive" data-testid="badge-ai-status">
@@ -207,53 +229,83 @@ export default function SettingsPage() {
           )}
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
-            <div>
-              <p className="text-muted-foreground mb-1">Provider</p>
-              <p className="font-medium capitalize" data-testid="text-ai-provider">
-                {settings?.aiProvider || "—"}
-              </p>
-            </div>
-            <div>
-              <p className="text-muted-foreground mb-1">Model</p>
-              <p className="font-medium" data-testid="text-ai-model">
-                {settings?.aiModel || "—"}
-              </p>
+          {settings?.aiProvidersError && (
+            <div className="flex items-start gap-2 text-sm text-red-500" data-testid="text-ai-providers-error">
+              <X className="w-4 h-4 shrink-0 mt-0.5" />
+              {settings.aiProvidersError}
             </div>
-            <div>
-              <p className="text-muted-foreground mb-1">API Key</p>
-              <code className="bg-muted px-2 py-0.5 rounded text-xs" data-testid="text-ai-key">
-                {settings?.aiApiKey || "—"}
-              </code>
-            </div>
-          </div>
-
-          <Separator />
-
-          <div className="flex items-center gap-3 flex-wrap">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={handleTestAi}
-              disabled={aiTestStatus === "loading" || !settings?.aiApiKey}
-              data-testid="button-test-ai"
-            >
-              {aiTestStatus === "loading" ? (
-                <Loader2 className="w-4 h-4 animate-spin" />
-              ) : aiTestStatus === "success" ? (
-                <Check className="w-4 h-4 text-green-500" />
-              ) : aiTestStatus === "error" ? (
-                <X className="w-4 h-4 text-red-500" />
-              ) : null}
-              Test Connection
-            </Button>
-            {aiTestStatus === "success" && (
-              <span className="text-sm text-green-500">Connection successful</span>
-            )}
-            {aiTestStatus === "error" && (
-              <span className="text-sm text-red-500">Connection failed — check AI_API_KEY</span>
-            )}
-          </div>
+          )}
+          {settings?.aiProviders.map((provider, index) => {
+            const status = aiTestStatus[provider.id] ?? "idle";
+            return (
+              <div key={provider.id} className="space-y-4" data-testid={`provider-${provider.id}`}>
+                {index > 0 && <Separator />}
+                <div className="flex items-center gap-2 flex-wrap">
+                  <p className="font-medium">{provider.label}</p>
+                  <Badge variant="outline" className="text-[10px]">{provider.type}</Badge>
+                  {provider.isDefault && <Badge variant="secondary" className="text-[10px]">default</Badge>}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground mb-1">Model</p>
+                    <p className="font-medium" data-testid={`text-ai-model-${provider.id}`}>{provider.model}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground mb-1">API Key</p>
+                    <code className="bg-muted px-2 py-0.5 rounded text-xs" data-testid={`text-ai-key-${provider.id}`}>
+                      {provider.apiKey || "—"}
+                    </code>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground mb-1">Options</p>
+                    <p className="text-xs text-muted-foreground">
+                      {[
+                        provider.temperature !== null ? `temp ${provider.temperature}` : null,
+                        provider.maxOutputTokens !== null ? `${provider.maxOutputTokens} max tokens` : null,
+                        provider.timeoutMs !== null ? `${provider.timeoutMs / 1000}s timeout` : null,
+                        provider.contextWindow !== null ? `${provider.contextWindow} token context` : null,
+                      ].filter(Boolean).join(" · ") || "defaults"}
+                    </p>
+                  </div>
+                  {provider.baseURL && (
+                    <div className="sm:col-span-3">
+                      <p className="text-muted-foreground mb-1">Endpoint</p>
+                      <code className="bg-muted px-2 py-0.5 rounded text-xs break-all">{provider.baseURL}</code>
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 flex-wrap">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => handleTestAi(provider.id)}
+                    disabled={status === "loading"}
+                    data-testid={`button-test-ai-${provider.id}`}
+                  >
+                    {status === "loading" ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : status === "success" ? (
+                      <Check className="w-4 h-4 text-green-500" />
+                    ) : status === "error" ? (
+                      <X className="w-4 h-4 text-red-500" />
+                    ) : null}
+                    Test Connection
+                  </Button>
+                  {status === "success" && (
+                    <span className="text-sm text-green-500">Connection successful</span>
+                  )}
+                  {status === "error" && (
+                    <span className="text-sm text-red-500">Connection failed</span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {settings && settings.aiProviders.length === 0 && !settings.aiProvidersError && (
+            <p className="text-sm text-muted-foreground">
+              Set AI_PROVIDER, AI_API_KEY and AI_MODEL in <code className="text-xs bg-muted px-1 py-0.5 rounded">.env</code> to configure a provider.
+            </p>
+          )}
         </CardContent>
       </Card>
     </div>
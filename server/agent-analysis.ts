@@ -0,0 +1,125 @@
+import type { AgentAnalysisInput, AgentFileType, NewActivityEvent } from "../shared/schema.js";
+import { formatCommit, formatPullRequest } from "./analysis-prompt";
+import { estimateTokens, fitEntries } from "./analysis-context";
+
+// Per-file excerpt lengths; prompts matter most, plans are many
+const PROMPT_EXCERPT_CHARS = 6000;
+const STATUS_EXCERPT_CHARS = 3000;
+const PROGRESS_TAIL_CHARS = 3000;
+const PLAN_EXCERPT_CHARS = 2000;
+const MAX_EVENT_FILES = 10;
+
+// An agent file read for a deep dive
+export interface AgentFileContent {
+  path: string;
+  type: AgentFileType;
+  content: string;
+}
+
+export interface AgentAnalysisPromptInput {
+  owner: string;
+  name: string;
+  agent: AgentAnalysisInput["agent"];
+  files: AgentFileContent[];
+  events: NewActivityEvent[];
+}
+
+// The request's events carry no diff stats; the formatters do not need them
+export function toActivityEvents(events: AgentAnalysisInput["events"]): NewActivityEvent[] {
+  return events.map((e) => ({ ...e, filesChanged: null, additions: null, deletions: null }));
+}
+
+const FILE_SECTIONS: { title: string; types: AgentFileType[] }[] = [
+  { title: "Prompt Files", types: ["planning-prompt", "execution-prompt", "prompt"] },
+  { title: "Status File and Progress Log", types: ["status", "progress"] },
+  { title: "Recent Plans (newest first)", types: ["plan"] },
+];
+
+function excerptLimit(type: AgentFileType): number {
+  if (type === "progress") return PROGRESS_TAIL_CHARS;
+  if (type === "plan") return PLAN_EXCERPT_CHARS;
+  return type === "status" ? STATUS_EXCERPT_CHARS : PROMPT_EXCERPT_CHARS;
+}
+
+// Progress logs grow at the end, so their newest entries are kept
+function excerptFile(file: AgentFileContent, maxChars: number): string {
+  const text = file.content.trim();
+  if (text.length <= maxChars) return text;
+  return file.type === "progress"
+    ? `…${text.slice(-maxChars).trimStart()}`
+    : `${text.slice(0, maxChars).trimEnd()}…`;
+}
+
+function formatEvent(event: NewActivityEvent): string {
+  const line = event.type === "pull_request" ? formatPullRequest(event) : formatCommit(event);
+  const files = event.files ?? [];
+  if (files.length === 0) return line;
+  const more = files.length > MAX_EVENT_FILES ? ` (+${files.length - MAX_EVENT_FILES} more)` : "";
+  return `${line}\n    files: ${files.slice(0, MAX_EVENT_FILES).join(", ")}${more}`;
+}
+
+function renderPrompt(input: AgentAnalysisPromptInput, fileSections: string, activity: string): string {
+  const { agent } = input;
+  const commits = input.events.filter((e) => e.type === "commit").length;
+  const prs = input.events.length - commits;
+  const boundaries = agent.boundaries && agent.boundaries.length > 0
+    ? agent.boundaries.map((b) => `- ${b}`).join("\n")
+    : "(no boundaries declared)";
+
+  return `Take a close look at a single agent, "${agent.name}", in the repository "${input.owner}/${input.name}", which operates using the Black Hole Architecture.
+All agents commit under the human's Git identity; do not flag the commit author. Do not explain the architecture; apply it.
+
+Agent: ${agent.name} (${agent.category} agent)
+${agent.description ? `Description: ${agent.description.replace(/\s+/g, " ").trim()}\n` : ""}
+Declared boundaries:
+${boundaries}
+
+Assess:
+- Plan quality: are the plans specific, scoped and actionable? Rate "missing" when no plans were read.
+- Execution fidelity: do the commits and pull requests carry out what the plans and status file say? Rate "unknown" when there is nothing to compare.
+- Scope drift: work outside the declared boundaries or the agent's stated purpose, with evidence.
+- Stuck signals: repeated attempts at the same change, reverts, pull requests closed without merging, a status or progress log that stopped moving.
+- Recommended prompt edits: concrete changes to this agent's prompt files, naming the file, that would address the findings.
+healthScore rates the agent from 0 (broken) to 100 (planning and shipping cleanly within its lane).
+
+${fileSections}
+
+Attributed Activity (${commits} commits and ${prs} pull requests, newest first):
+${activity}
+
+You must respond with a fully populated JSON object matching the requested schema.`;
+}
+
+/**
+ * Builds the deep-dive prompt for one agent within `budget` tokens. When
+ * everything does not fit, the agent's files get up to half of what is left
+ * after the fixed text, each file cut to an equal share, and the activity
+ * keeps as many of the newest events as fit in the rest.
+ */
+export function buildAgentAnalysisPrompt(input: AgentAnalysisPromptInput, budget: number): { prompt: string; estimatedTokens: number } {
+  const events = input.events.map(formatEvent);
+  const noActivity = "(no attributed commits or pull requests)";
+
+  const renderFiles = (maxChars: (file: AgentFileContent) => number) => FILE_SECTIONS
+    .map((section) => {
+      const files = input.files.filter((f) => section.types.includes(f.type));
+      const body = files.map((f) => `### ${f.path}\n${excerptFile(f, maxChars(f))}`).join("\n\n");
+      return `${section.title}:\n${body || "(none found)"}`;
+    })
+    .join("\n\n");
+
+  const full = renderPrompt(input, renderFiles((f) => excerptLimit(f.type)), events.join("\n") || noActivity);
+  const fullTokens = estimateTokens(full);
+  if (fullTokens <= budget) return { prompt: full, estimatedTokens: fullTokens };
+
+  const emptyFiles = renderFiles(() => 0);
+  const remaining = Math.max(0, budget - estimateTokens(renderPrompt(input, emptyFiles, "")));
+  // About four characters per token, as in estimateTokens
+  const shareChars = Math.floor((remaining / 2) * 4 / Math.max(1, input.files.length));
+  const fileSections = renderFiles((f) => Math.min(excerptLimit(f.type), shareChars));
+  const activity = events.length > 0
+    ? fitEntries(events, remaining - (estimateTokens(fileSections) - estimateTokens(emptyFiles)))
+    : noActivity;
+  const prompt = renderPrompt(input, fileSections, activity);
+  return { prompt, estimatedTokens: estimateTokens(prompt) };
+}
@@ -0,0 +1,213 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import type { CallSettings, LanguageModel } from "ai";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import type { AiProviderSummary } from "../shared/schema.js";
+
+const DEFAULT_CONFIG_FILE = "ai-providers.json";
+const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+
+export const aiProviderConfigSchema = z.object({
+  id: z.string().min(1).regex(/^[a-z0-9][a-z0-9_-]*$/i, "id may only contain letters, digits, - and _"),
+  label: z.string().optional(),
+  // "mock" answers offline with a heuristic analysis built from the fetched activity
+  type: z.enum(["openai", "anthropic", "google", "openai-compatible", "azure", "mock"]),
+  model: z.string().min(1),
+  // Read the key from this environment variable, so config files hold no secrets
+  apiKeyEnv: z.string().optional(),
+  apiKey: z.string().optional(),
+  // openai-compatible: e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp)
+  baseURL: z.string().url().optional(),
+  // azure: either baseURL (…/openai/deployments/<deployment>) or resourceName + deployment
+  resourceName: z.string().optional(),
+  deployment: z.string().optional(),
+  apiVersion: z.string().optional(),
+  headers: z.record(z.string()).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxOutputTokens: z.number().int().positive().optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  // Tokens the model accepts (prompt + output); larger analyses are summarized in chunks first
+  contextWindow: z.number().int().positive().optional(),
+});
+
+export const aiProvidersFileSchema = z.object({
+  default: z.string().optional(),
+  providers: z.array(aiProviderConfigSchema),
+});
+
+export type AiProviderConfig = z.infer<typeof aiProviderConfigSchema>;
+
+export type ResolvedAiProvider =
+  | {
+    kind: "model";
+    config: AiProviderConfig;
+    model: LanguageModel;
+    // Spread into generateText/streamObject calls
+    callSettings: Pick<CallSettings, "temperature" | "maxOutputTokens" | "timeout">;
+  }
+  | { kind: "mock"; config: AiProviderConfig };
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// The single provider described by AI_PROVIDER / AI_API_KEY / AI_MODEL, if any
+function providerFromEnv(): AiProviderConfig | null {
+  const type = process.env.AI_PROVIDER || "openai";
+  if (type !== "mock" && !process.env.AI_API_KEY && !process.env.AI_BASE_URL) return null;
+  const parsed = aiProviderConfigSchema.safeParse({
+    id: "env",
+    label: "Environment",
+    type,
+    model: process.env.AI_MODEL || (type === "mock" ? "heuristic" : "gpt-4"),
+    apiKeyEnv: "AI_API_KEY",
+    baseURL: process.env.AI_BASE_URL || undefined,
+    apiVersion: process.env.AI_API_VERSION || undefined,
+    temperature: optionalNumber(process.env.AI_TEMPERATURE),
+    maxOutputTokens: optionalNumber(process.env.AI_MAX_OUTPUT_TOKENS),
+    timeoutMs: optionalNumber(process.env.AI_TIMEOUT_MS),
+    contextWindow: optionalNumber(process.env.AI_CONTEXT_WINDOW),
+  });
+  if (!parsed.success) {
+    throw new Error(`Invalid AI environment variables: ${fromZodError(parsed.error).message}`);
+  }
+  return parsed.data;
+}
+
+function readProvidersFile(): z.infer<typeof aiProvidersFileSchema> | null {
+  const file = path.resolve(process.cwd(), process.env.AI_PROVIDERS_FILE || DEFAULT_CONFIG_FILE);
+  if (!fs.existsSync(file)) {
+    if (process.env.AI_PROVIDERS_FILE) throw new Error(`AI_PROVIDERS_FILE environment variable points to a missing file: ${file}`);
+    return null;
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`${path.basename(file)} is not valid JSON: ${error.message}`);
+  }
+  const parsed = aiProvidersFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${path.basename(file)}: ${fromZodError(parsed.error).message}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Every configured provider: the one from AI_* environment variables first,
+ * then those from the providers file (AI_PROVIDERS_FILE, default
+ * ./ai-providers.json). The file is re-read on each call so edits apply
+ * without a restart.
+ */
+export function loadAiProviders(): { providers: AiProviderConfig[]; defaultId: string | null } {
+  const fromEnv = providerFromEnv();
+  const file = readProvidersFile();
+  const providers = [...(fromEnv ? [fromEnv] : []), ...(file?.providers ?? [])];
+  const seen = new Set<string>();
+  for (const p of providers) {
+    if (seen.has(p.id)) throw new Error(`Duplicate AI provider id "${p.id}"`);
+    seen.add(p.id);
+  }
+  const defaultId = process.env.AI_DEFAULT_PROVIDER || file?.default || providers[0]?.id || null;
+  return { providers, defaultId };
+}
+
+function resolveApiKey(config: AiProviderConfig): string | undefined {
+  if (config.apiKeyEnv) return process.env[config.apiKeyEnv] || undefined;
+  return config.apiKey;
+}
+
+// Azure expects the key in an `api-key` header and the API version as a query parameter
+function azureFetch(apiKey: string, apiVersion: string): typeof fetch {
+  return (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    url.searchParams.set("api-version", apiVersion);
+    const headers = new Headers(init?.headers);
+    headers.delete("authorization");
+    headers.set("api-key", apiKey);
+    return fetch(url, { ...init, headers });
+  };
+}
+
+function createModel(config: AiProviderConfig & { type: Exclude<AiProviderConfig["type"], "mock"> }): LanguageModel {
+  const apiKey = resolveApiKey(config);
+  const requireKey = () => {
+    if (!apiKey) {
+      throw new Error(`AI provider "${config.id}" has no API key; set the ${config.apiKeyEnv ?? "apiKeyEnv"} environment variable`);
+    }
+    return apiKey;
+  };
+
+  switch (config.type) {
+    case "openai":
+      return createOpenAI({ apiKey: requireKey(), baseURL: config.baseURL, headers: config.headers })(config.model);
+    case "anthropic":
+      return createAnthropic({ apiKey: requireKey(), baseURL: config.baseURL, headers: config.headers })(config.model);
+    case "google":
+      return createGoogleGenerativeAI({ apiKey: requireKey(), baseURL: config.baseURL, headers: config.headers })(config.model);
+    case "openai-compatible": {
+      if (!config.baseURL) throw new Error(`AI provider "${config.id}" needs a baseURL`);
+      // Local servers usually take no key; most only implement the chat completions API
+      const provider = createOpenAI({ apiKey: apiKey ?? "", baseURL: config.baseURL, headers: config.headers, name: config.id });
+      return provider.chat(config.model);
+    }
+    case "azure": {
+      const key = requireKey();
+      const deployment = config.deployment || config.model;
+      const baseURL = config.baseURL
+        ?? (config.resourceName ? `https://${config.resourceName}.openai.azure.com/openai/deployments/${deployment}` : null);
+      if (!baseURL) throw new Error(`AI provider "${config.id}" needs a baseURL or resourceName`);
+      const provider = createOpenAI({
+        apiKey: key,
+        baseURL,
+        headers: config.headers,
+        name: config.id,
+        fetch: azureFetch(key, config.apiVersion || DEFAULT_AZURE_API_VERSION),
+      });
+      return provider.chat(config.model);
+    }
+  }
+}
+
+export function getAiProvider(id?: string | null): ResolvedAiProvider {
+  const { providers, defaultId } = loadAiProviders();
+  if (providers.length === 0) {
+    throw new Error("No AI provider configured. Set the AI_PROVIDER, AI_API_KEY and AI_MODEL environment variables or add an ai-providers.json file");
+  }
+  const wanted = id || defaultId;
+  const config = providers.find((p) => p.id === wanted);
+  if (!config) throw new Error(`Unknown AI provider "${wanted}"`);
+  if (config.type === "mock") return { kind: "mock", config };
+  return {
+    kind: "model",
+    config,
+    model: createModel({ ...config, type: config.type }),
+    callSettings: {
+      temperature: config.temperature,
+      maxOutputTokens: config.maxOutputTokens,
+      timeout: config.timeoutMs,
+    },
+  };
+}
+
+export function summarizeAiProvider(config: AiProviderConfig, defaultId: string | null, mask: (value: string | null | undefined) => string | null): AiProviderSummary {
+  return {
+    id: config.id,
+    label: config.label ?? config.id,
+    type: config.type,
+    model: config.model,
+    baseURL: config.baseURL ?? (config.type === "azure" && config.resourceName ? `https://${config.resourceName}.openai.azure.com` : null),
+    apiKey: mask(resolveApiKey(config)),
+    temperature: config.temperature ?? null,
+    maxOutputTokens: config.maxOutputTokens ?? null,
+    timeoutMs: config.timeoutMs ?? null,
+    contextWindow: config.contextWindow ?? null,
+    isDefault: config.id === defaultId,
+  };
+}
@@ -0,0 +1,204 @@
+import { startOfISOWeek } from "date-fns";
+import type { NewActivityEvent, PromptTemplateRef } from "../shared/schema.js";
+import {
+  buildAnalysisPrompt,
+  formatAgentDocument,
+  formatCommit,
+  formatPullRequest,
+  rosterAgentNames,
+  type ActivitySections,
+  type AgentDocument,
+  type AnalysisPromptInput,
+} from "./analysis-prompt";
+
+export const DEFAULT_CONTEXT_WINDOW = 128000;
+// Kept free for the response when the provider sets no maxOutputTokens
+const DEFAULT_OUTPUT_RESERVE = 8000;
+const MIN_INPUT_BUDGET = 4000;
+// Upper bound for one map call, so slices stay small enough to summarize well
+const MAX_CHUNK_TOKENS = 24000;
+const MAP_PROMPT_OVERHEAD = 400;
+const MAX_MAP_CHUNKS = 16;
+const STATUS_EXCERPT_CHARS = 2000;
+const PLAN_EXCERPT_CHARS = 1200;
+
+// About four characters per token for English text and code; good enough for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Prompt tokens available once the response has been reserved
+export function inputBudget(contextWindow: number | undefined, maxOutputTokens: number | undefined): number {
+  return Math.max(MIN_INPUT_BUDGET, (contextWindow ?? DEFAULT_CONTEXT_WINDOW) - (maxOutputTokens ?? DEFAULT_OUTPUT_RESERVE));
+}
+
+// Keeps whole entries, in order, while they fit; notes how many were left out
+export function fitEntries(entries: string[], budget: number, separator = "\n"): string {
+  const kept: string[] = [];
+  let used = 0;
+  for (const entry of entries) {
+    const cost = estimateTokens(entry + separator);
+    if (used + cost > budget) break;
+    kept.push(entry);
+    used += cost;
+  }
+  const omitted = entries.length - kept.length;
+  if (omitted > 0) kept.push(`(${omitted} more omitted to fit the model's context)`);
+  return kept.join(separator);
+}
+
+interface TimelineEntry {
+  time: number;
+  text: string;
+  tokens: number;
+}
+
+interface ActivityChunk {
+  label: string;
+  entries: TimelineEntry[];
+  tokens: number;
+}
+
+function formatDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function chunkLabel(entries: TimelineEntry[]): string {
+  const first = formatDay(entries[0].time);
+  const last = formatDay(entries[entries.length - 1].time);
+  return first === last ? first : `${first} to ${last}`;
+}
+
+/**
+ * Splits the activity, oldest first, into slices of at most `maxTokens`.
+ * Whole ISO weeks are packed together while they fit; a week too large for
+ * one slice is split across several.
+ */
+export function chunkActivityByWeek(commits: NewActivityEvent[], prs: NewActivityEvent[], maxTokens: number): ActivityChunk[] {
+  const timeline: (TimelineEntry & { week: number })[] = [
+    ...commits.map((c) => ({ time: new Date(c.createdAt).getTime(), text: formatCommit(c) })),
+    ...prs.map((p) => ({ time: new Date(p.createdAt).getTime(), text: formatPullRequest(p) })),
+  ]
+    .filter((e) => Number.isFinite(e.time))
+    .sort((a, b) => a.time - b.time)
+    .map((e) => ({ ...e, tokens: estimateTokens(e.text) + 1, week: startOfISOWeek(e.time).getTime() }));
+
+  const weeks = new Map<number, TimelineEntry[]>();
+  for (const entry of timeline) {
+    if (!weeks.has(entry.week)) weeks.set(entry.week, []);
+    weeks.get(entry.week)!.push(entry);
+  }
+
+  const chunks: ActivityChunk[] = [];
+  let current: TimelineEntry[] = [];
+  let currentTokens = 0;
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({ label: chunkLabel(current), entries: current, tokens: currentTokens });
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const entries of Array.from(weeks.values())) {
+    const weekTokens = entries.reduce((sum, e) => sum + e.tokens, 0);
+    if (currentTokens + weekTokens > maxTokens) flush();
+    for (const entry of entries) {
+      if (currentTokens + entry.tokens > maxTokens) flush();
+      current.push(entry);
+      currentTokens += entry.tokens;
+    }
+  }
+  flush();
+  return chunks;
+}
+
+function mapPrompt(input: AnalysisPromptInput, chunk: ActivityChunk, index: number, total: number): string {
+  const agents = rosterAgentNames(input.context);
+  return `Summarize one slice of git activity for the repository "${input.owner}/${input.name}", which operates using the Black Hole Architecture.
+This is slice ${index + 1} of ${total} (${chunk.label}); the summaries will be combined into one analysis, so report facts rather than advice.
+All agents commit under the human's Git identity; agents are usually named in commit and pull request titles.
+${agents.length > 0 ? `Known agents: ${agents.join(", ")}\n` : ""}
+In at most 250 words, cover:
+- What each agent worked on, and whether it shipped (merged) or stalled
+- Reverts, repeated edits of the same area, and pull requests closed without merging
+- Work that looks outside an agent's lane
+Cite pull request numbers and short commit SHAs.
+
+Activity:
+${chunk.entries.map((e) => e.text).join("\n")}`;
+}
+
+export interface AnalysisContextOptions {
+  // Prompt tokens available; Infinity skips budgeting
+  budget: number;
+  documents: AgentDocument[];
+  // Runs one map step; only called when the activity does not fit the budget
+  summarize: (prompt: string) => Promise<string>;
+  onMapProgress?: (done: number, total: number) => void;
+}
+
+export interface BuiltAnalysisContext {
+  prompt: string;
+  template: PromptTemplateRef;
+  mode: "direct" | "map-reduce";
+  estimatedTokens: number;
+  // Map steps run, and slices left out because there were too many
+  chunks: number;
+  droppedChunks: number;
+}
+
+/**
+ * Builds the analysis prompt within the model's context. Everything is sent
+ * in one prompt when it fits. Otherwise the activity is summarized per week
+ * (map) and the final prompt carries those summaries plus as many pull
+ * request titles and agent file excerpts as still fit (reduce).
+ */
+export async function buildAnalysisContext(input: AnalysisPromptInput, options: AnalysisContextOptions): Promise<BuiltAnalysisContext> {
+  const { commits, prs } = input;
+  const { budget, documents } = options;
+  const statusAndPlans = documents.map((d) => formatAgentDocument(d, d.kind === "status" ? STATUS_EXCERPT_CHARS : PLAN_EXCERPT_CHARS));
+  const noFiles = "(no status files or plans read)";
+
+  const full: ActivitySections = {
+    commitSummary: commits.map((c) => formatCommit(c)).join("\n"),
+    prSummary: prs.map((p) => formatPullRequest(p)).join("\n"),
+    agentFiles: statusAndPlans.join("\n\n") || noFiles,
+  };
+  const direct = buildAnalysisPrompt(input, full);
+  const directTokens = estimateTokens(direct.prompt);
+  if (directTokens <= budget) {
+    return { ...direct, mode: "direct", estimatedTokens: directTokens, chunks: 0, droppedChunks: 0 };
+  }
+
+  // Map: summarize the activity slice by slice, keeping the newest slices when there are too many
+  const chunkBudget = Math.max(1000, Math.min(MAX_CHUNK_TOKENS, Math.floor(budget * 0.6)) - MAP_PROMPT_OVERHEAD);
+  const allChunks = chunkActivityByWeek(commits, prs, chunkBudget);
+  const chunks = allChunks.slice(-MAX_MAP_CHUNKS);
+  const summaries: string[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    const summary = await options.summarize(mapPrompt(input, chunks[i], i, chunks.length));
+    summaries.push(`### ${chunks[i].label}\n${summary.trim()}`);
+    options.onMapProgress?.(i + 1, chunks.length);
+  }
+
+  // Reduce: the summaries stand in for the commit list; PR titles and file excerpts fill what is left
+  const dropped = allChunks.length - chunks.length;
+  const commitSummary = [
+    `Summarized in ${chunks.length} period${chunks.length === 1 ? "" : "s"} from ${commits.length} commits and ${prs.length} pull requests`
+      + (dropped > 0 ? ` (${dropped} older period${dropped === 1 ? "" : "s"} left out)` : "") + ":",
+    ...summaries,
+  ].join("\n\n");
+  const fixedTokens = estimateTokens(buildAnalysisPrompt(input, { commitSummary, prSummary: "", agentFiles: "" }).prompt);
+  const remaining = Math.max(0, budget - fixedTokens);
+  const agentFiles = statusAndPlans.length > 0 ? fitEntries(statusAndPlans, Math.floor(remaining / 2), "\n\n") : noFiles;
+  const prSummary = fitEntries(prs.map((p) => formatPullRequest(p, false)), remaining - estimateTokens(agentFiles));
+
+  const reduced = buildAnalysisPrompt(input, { commitSummary, prSummary, agentFiles });
+  return {
+    ...reduced,
+    mode: "map-reduce",
+    estimatedTokens: estimateTokens(reduced.prompt),
+    chunks: chunks.length,
+    droppedChunks: dropped,
+  };
+}
@@ -0,0 +1,151 @@
+import { z } from "zod";
+import {
+  highFidelityAnalysisSchema,
+  type AnalysisContext,
+  type HighFidelityAnalysis,
+  type NewActivityEvent,
+  type PromptTemplate,
+  type PromptTemplateRef,
+} from "../shared/schema.js";
+import { DEFAULT_PROMPT_TEMPLATE, renderPromptTemplate, type PromptVariable } from "../shared/prompt-template.js";
+
+const MAX_PREVIOUS_SUMMARY_CHARS = 2000;
+const MAX_ROLE_DESCRIPTION_CHARS = 300;
+const MAX_COMMIT_BODY_CHARS = 300;
+const MAX_PR_BODY_CHARS = 500;
+
+export interface AnalysisPromptInput {
+  owner: string;
+  name: string;
+  commits: NewActivityEvent[];
+  prs: NewActivityEvent[];
+  grounding: string;
+  context: AnalysisContext;
+  // The repository's own template; the built-in one when null
+  template: PromptTemplate | null;
+}
+
+// The parts of the prompt that grow with the repository, already fitted to the token budget
+export interface ActivitySections {
+  commitSummary: string;
+  prSummary: string;
+  agentFiles: string;
+}
+
+// A status file or plan read for the prompt
+export interface AgentDocument {
+  agentName: string;
+  kind: "status" | "plan";
+  path: string;
+  content: string;
+}
+
+function excerpt(text: string | null | undefined, maxChars: number): string {
+  const trimmed = (text ?? "").trim();
+  return trimmed.length > maxChars ? `${trimmed.slice(0, maxChars).trimEnd()}…` : trimmed;
+}
+
+function indent(text: string): string {
+  return text.split("\n").map((line) => `    ${line}`).join("\n");
+}
+
+// "- 2026-03-02 1a2b3c4 Subject (by author)", followed by the rest of the message when asked for
+export function formatCommit(commit: NewActivityEvent, withBody = true): string {
+  const sha = commit.sha ? ` ${commit.sha.slice(0, 7)}` : "";
+  const line = `- ${commit.createdAt.slice(0, 10)}${sha} ${commit.title} (by ${commit.author})`;
+  const body = withBody ? excerpt(commit.description?.split("\n").slice(1).join("\n"), MAX_COMMIT_BODY_CHARS) : "";
+  return body ? `${line}\n${indent(body)}` : line;
+}
+
+export function formatPullRequest(pr: NewActivityEvent, withBody = true): string {
+  const branch = pr.branch ? ` [${pr.branch}]` : "";
+  const line = `- PR #${pr.prNumber}: ${pr.title} (${pr.state}) by ${pr.author}${branch}`;
+  const body = withBody ? excerpt(pr.description, MAX_PR_BODY_CHARS) : "";
+  return body ? `${line}\n${indent(body)}` : line;
+}
+
+export function formatAgentDocument(doc: AgentDocument, maxChars: number): string {
+  return `### ${doc.agentName} ${doc.kind} (${doc.path})\n${excerpt(doc.content, maxChars)}`;
+}
+
+function formatDate(iso: string | null): string | null {
+  return iso ? iso.slice(0, 10) : null;
+}
+
+// One line per agent; descriptions are the first lines of the status file or prompt
+function formatRoles(roles: AnalysisContext["roles"]): string {
+  if (roles.length === 0) return "(no agents scanned yet)";
+  return roles
+    .map((r) => {
+      const facts = [
+        r.category,
+        formatDate(r.statusUpdatedAt) && `status file updated ${formatDate(r.statusUpdatedAt)}`,
+        formatDate(r.lastActiveAt) && `last active ${formatDate(r.lastActiveAt)}`,
+      ].filter(Boolean).join("; ");
+      const description = r.description?.replace(/\s+/g, " ").trim().slice(0, MAX_ROLE_DESCRIPTION_CHARS);
+      return `- ${r.name} (${facts})${description ? `: ${description}` : ""}`;
+    })
+    .join("\n");
+}
+
+function formatBoundaries(roles: AnalysisContext["roles"]): string {
+  const withBoundaries = roles.filter((r) => r.boundaries && r.boundaries.length > 0);
+  if (withBoundaries.length === 0) return "(no boundaries declared)";
+  return withBoundaries
+    .map((r) => `${r.name}:\n${r.boundaries!.map((b) => `  - ${b}`).join("\n")}`)
+    .join("\n");
+}
+
+function formatPreviousAnalysis(previous: AnalysisContext["previousAnalysis"]): string {
+  if (!previous) return "(no previous analysis)";
+  const score = previous.score != null ? `, gravity score ${previous.score}` : "";
+  return `${previous.createdAt}${score}:\n${previous.summary.slice(0, MAX_PREVIOUS_SUMMARY_CHARS)}`;
+}
+
+/**
+ * Renders the analysis prompt from the repository's template, or the built-in
+ * one, and reports which template was used.
+ */
+export function buildAnalysisPrompt(input: AnalysisPromptInput, sections: ActivitySections): { prompt: string; template: PromptTemplateRef } {
+  const { commits, prs, grounding, context } = input;
+  const template = input.template ?? DEFAULT_PROMPT_TEMPLATE;
+
+  const values: Record<PromptVariable, string> = {
+    repository: `${input.owner}/${input.name}`,
+    commitCount: String(commits.length),
+    prCount: String(prs.length),
+    commitSummary: sections.commitSummary,
+    prSummary: sections.prSummary,
+    agentFiles: sections.agentFiles,
+    roles: formatRoles(context.roles),
+    boundaries: formatBoundaries(context.roles),
+    previousAnalysis: formatPreviousAnalysis(context.previousAnalysis),
+    grounding: grounding ? `
+Deterministic findings (computed from the full stored history with touched file lists; treat them as facts and reflect them in frictionAndThrashing and boundaryViolations):
+${grounding}
+` : "",
+  };
+
+  return {
+    prompt: renderPromptTemplate(template.content, values),
+    template: { source: input.template ? "repository" : "default", version: template.version },
+  };
+}
+
+// Agents that agentStates may name; the shared governance pseudo-agent is not one
+export function rosterAgentNames(context: AnalysisContext): string[] {
+  return Array.from(new Set(context.roles.filter((r) => r.category !== "shared").map((r) => r.name)));
+}
+
+/**
+ * The analysis schema with `agentStates[].agentName` limited to the roster, so
+ * the model reports on the scanned agents instead of inventing names. Without
+ * a roster any name is accepted.
+ */
+export function analysisSchemaFor(agentNames: string[]): z.ZodType<HighFidelityAnalysis> {
+  if (agentNames.length === 0) return highFidelityAnalysisSchema;
+  const agentState = highFidelityAnalysisSchema.shape.agentStates.element;
+  return highFidelityAnalysisSchema.extend({
+    agentStates: z.array(agentState.extend({ agentName: z.enum(agentNames as [string, ...string[]]) })),
+  });
+}
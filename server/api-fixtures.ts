@@ -0,0 +1,139 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+
+export type HostedProvider = "github" | "gitlab" | "gitea";
+export type FixtureMode = "live" | "fixture" | "record";
+
+// Keeps file names well under common filesystem limits
+const MAX_SEGMENT_LENGTH = 120;
+
+// `link` drives pagination and GitHub's total counts; GitLab reports totals in
+// x-total / x-total-pages and Gitea in x-total-count
+const RECORDED_HEADERS = ["link", "x-total", "x-total-pages", "x-total-count"];
+
+/**
+ * A recorded API response. Only the headers the API clients read
+ * are kept (see RECORDED_HEADERS).
+ */
+export interface ApiFixture {
+  request: { method: string; url: string };
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+// GITHUB_MODE, GITLAB_MODE or GITEA_MODE
+export function getFixtureMode(provider: HostedProvider): FixtureMode {
+  const variable = `${provider.toUpperCase()}_MODE`;
+  const mode = process.env[variable] || "live";
+  if (mode !== "live" && mode !== "fixture" && mode !== "record") {
+    throw new Error(`${variable} environment variable must be live, fixture or record (got "${mode}")`);
+  }
+  return mode;
+}
+
+// GITHUB_FIXTURES_DIR etc., defaulting to fixtures/<provider>
+export function getFixturesDir(provider: HostedProvider): string {
+  return path.resolve(process.cwd(), process.env[`${provider.toUpperCase()}_FIXTURES_DIR`] || `fixtures/${provider}`);
+}
+
+function shortenSegment(segment: string): string {
+  if (segment.length <= MAX_SEGMENT_LENGTH) return segment;
+  const hash = createHash("sha1").update(segment).digest("hex").slice(0, 10);
+  return `${segment.slice(0, MAX_SEGMENT_LENGTH - 11)}~${hash}`;
+}
+
+/**
+ * Maps a request onto a file that mirrors the API path, e.g.
+ * `GET /repos/o/r/commits?per_page=1` → `repos/o/r/commits@per_page=1.json`.
+ * Query parameters are sorted so the key does not depend on their order.
+ */
+export function fixturePath(dir: string, method: string, url: string): string {
+  const parsed = new URL(url);
+  // Encoded slashes (e.g. contents paths) become directories too
+  const segments = parsed.pathname.split("/").flatMap((s) => decodeURIComponent(s).split("/")).filter(Boolean);
+  if (segments.length === 0 || segments.some((s) => s === "." || s === ".." || s.includes("\\"))) {
+    throw new Error(`Cannot map ${method} ${parsed.pathname} to a fixture`);
+  }
+  const query = Array.from(parsed.searchParams)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
+    .join("&");
+  const last = segments.pop()! + (query ? `@${query}` : "") + (method === "GET" ? "" : `.${method.toLowerCase()}`);
+  return path.join(dir, ...[...segments, last].map(shortenSegment)) + ".json";
+}
+
+function requestOf(input: Parameters<typeof fetch>[0], init?: RequestInit): { method: string; url: string } {
+  const url = input instanceof Request ? input.url : input.toString();
+  const method = (init?.method ?? (input instanceof Request ? input.method : "GET")).toUpperCase();
+  return { method, url };
+}
+
+function jsonResponse(status: number, headers: Record<string, string>, body: unknown, url: string): Response {
+  const response = new Response(status === 204 ? null : JSON.stringify(body), {
+    status,
+    headers: { ...headers, "content-type": "application/json; charset=utf-8" },
+  });
+  // Octokit reports response.url in errors and pagination
+  Object.defineProperty(response, "url", { value: url });
+  return response;
+}
+
+/**
+ * A fetch that answers from the fixture directory and never
+ * touches the network. A request without a fixture gets a 404 naming the
+ * expected file, so missing optional files (e.g. a layout file) behave as
+ * they do against the real API.
+ */
+export function fixtureFetch(dir: string): typeof fetch {
+  return async (input, init) => {
+    const { method, url } = requestOf(input, init);
+    const file = fixturePath(dir, method, url);
+    if (!fs.existsSync(file)) {
+      const relative = path.relative(process.cwd(), file);
+      return jsonResponse(404, {}, { message: `No fixture for ${method} ${new URL(url).pathname} (expected ${relative})` }, url);
+    }
+    const fixture: ApiFixture = JSON.parse(await fs.promises.readFile(file, "utf-8"));
+    return jsonResponse(fixture.status, fixture.headers, fixture.body, url);
+  };
+}
+
+/**
+ * A fetch that calls the real API and writes each response into the
+ * fixture directory. Auth and rate-limit failures are not recorded, so a bad
+ * token cannot overwrite good fixtures.
+ */
+export function recordingFetch(dir: string): typeof fetch {
+  return async (input, init) => {
+    const { method, url } = requestOf(input, init);
+    const response = await fetch(input, init);
+    if (response.status >= 500 || [401, 403, 429].includes(response.status)) return response;
+    if (!response.headers.get("content-type")?.includes("json")) return response;
+
+    const text = await response.clone().text();
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value) headers[name] = value;
+    }
+    const fixture: ApiFixture = {
+      request: { method, url: new URL(url).pathname + new URL(url).search },
+      status: response.status,
+      headers,
+      body: text ? JSON.parse(text) : null,
+    };
+    const file = fixturePath(dir, method, url);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, JSON.stringify(fixture, null, 2) + "\n");
+    return response;
+  };
+}
+
+// The fetch a provider's API client should use under its *_MODE
+export function fetchForMode(provider: HostedProvider): typeof fetch {
+  const mode = getFixtureMode(provider);
+  if (mode === "fixture") return fixtureFetch(getFixturesDir(provider));
+  if (mode === "record") return recordingFetch(getFixturesDir(provider));
+  return fetch;
+}
@@ -0,0 +1,286 @@
+import type { RepoLinks } from "../shared/repo-links.js";
+import {
+  agentAnalysisSchema,
+  highFidelityAnalysisSchema,
+  type AgentAnalysis,
+  type AgentFileType,
+  type HighFidelityAnalysis,
+  type NewActivityEvent,
+} from "../shared/schema.js";
+import type { AgentFileContent } from "./agent-analysis";
+
+export interface MockAnalysisInput {
+  owner: string;
+  name: string;
+  links: RepoLinks;
+  // Scanned agents; when given, agentStates only names these
+  agentNames?: string[];
+  commits: NewActivityEvent[];
+  prs: NewActivityEvent[];
+  grounding?: string;
+}
+
+type AgentState = HighFidelityAnalysis["agentStates"][number];
+type Friction = HighFidelityAnalysis["frictionAndThrashing"][number];
+
+const DAY_MS = 86400000;
+
+// "[PLAYER] …", "PLAYER: …" and "feat(player): …" all name the agent or area;
+// a revert belongs to whoever made the reverted change
+function agentOf(title: string): string | null {
+  const subject = title.replace(/^revert\s+"(.+)"$/i, "$1");
+  const m = subject.match(/^\[([A-Za-z][\w-]*)\]/)
+    ?? subject.match(/^([A-Z][A-Z0-9_-]{2,}):/)
+    ?? subject.match(/^\w+\(([\w-]+)\)!?:/);
+  return m ? m[1].toUpperCase() : null;
+}
+
+function countBy<T>(items: T[], key: (item: T) => string | null): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (!k) continue;
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(item);
+  }
+  return groups;
+}
+
+// Grounding lines look like "- [medium] file-churn · src/x.ts: Edited in 5 commits within 4h (…)"
+function frictionFromGrounding(grounding: string): Friction[] {
+  const items: Friction[] = [];
+  for (const line of grounding.split("\n")) {
+    const m = line.match(/^- \[(low|medium|critical)\] ([\w-]+) · (.+?): (.+)$/);
+    if (m) items.push({ severity: m[1] as Friction["severity"], component: m[3], issue: m[4], suspectedCause: `Detected ${m[2]} in history` });
+  }
+  return items;
+}
+
+function violationsFromGrounding(grounding: string): HighFidelityAnalysis["boundaryViolations"] {
+  const items: HighFidelityAnalysis["boundaryViolations"] = [];
+  for (const line of grounding.split("\n")) {
+    const m = line.match(/^- (\S+) touched (.+?) (\S+)(?: in (\S+))? \(rule: (.+)\)$/);
+    if (m) items.push({ agentOrRole: m[1], violation: `Touched ${m[2]} ${m[3]}`, evidence: m[4] ? `${m[4]} (rule ${m[5]})` : `rule ${m[5]}` });
+  }
+  return items;
+}
+
+/**
+ * Builds a schema-valid analysis from the fetched activity without calling a
+ * model. Everything is derived from the input (time is measured from the
+ * newest event, not the clock), so the same history always yields the same result.
+ */
+export function buildMockAnalysis(input: MockAnalysisInput): HighFidelityAnalysis {
+  const { commits, prs, grounding = "" } = input;
+  const all = [...commits, ...prs];
+  const newest = Math.max(0, ...all.map((e) => new Date(e.createdAt).getTime()));
+
+  const roster = new Map((input.agentNames ?? []).map((n) => [n.toUpperCase(), n]));
+  const byAgent = countBy(all, (e) => {
+    const agent = agentOf(e.title);
+    return agent && roster.size > 0 ? roster.get(agent) ?? null : agent;
+  });
+  const agents = Array.from(byAgent.entries()).sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+  const merged = prs.filter((p) => p.state === "merged");
+  const abandoned = prs.filter((p) => p.state === "closed");
+  const reverts = commits.filter((c) => /^revert\b/i.test(c.title));
+
+  const friction: Friction[] = frictionFromGrounding(grounding);
+  if (reverts.length > 0) {
+    friction.push({
+      component: agentOf(reverts[0].title) ?? input.name,
+      issue: `${reverts.length} revert commit${reverts.length === 1 ? "" : "s"} in the recent history`,
+      severity: reverts.length > 2 ? "critical" : "medium",
+      suspectedCause: "Changes merged before they were ready",
+    });
+  }
+  const boundaryViolations = violationsFromGrounding(grounding);
+
+  const mergeRate = merged.length + abandoned.length > 0 ? merged.length / (merged.length + abandoned.length) : 1;
+  const penalty = friction.reduce((sum, f) => sum + (f.severity === "critical" ? 8 : f.severity === "medium" ? 4 : 1), 0)
+    + boundaryViolations.length * 3;
+  const velocity = Math.min(commits.length / 5, 20);
+  const gravityScore = Math.max(0, Math.min(100, Math.round(40 + velocity + mergeRate * 30 - penalty)));
+
+  const agentStates: AgentState[] = agents.slice(0, 12).map(([agentName, events]) => {
+    const latest = events.reduce((a, b) => (new Date(a.createdAt) > new Date(b.createdAt) ? a : b));
+    const idleDays = (newest - new Date(latest.createdAt).getTime()) / DAY_MS;
+    const stuck = events.some((e) => /^revert\b/i.test(e.title)) || events.filter((e) => e.state === "closed").length > 1;
+    return {
+      agentName,
+      currentStatus: stuck ? "stuck" : idleDays > 3 ? "idle" : "active",
+      recentTask: latest.title,
+    };
+  });
+
+  const orchestratorActions: HighFidelityAnalysis["orchestratorActions"] = [];
+  if (abandoned.length > 0) {
+    orchestratorActions.push({
+      action: `Review ${abandoned.length} pull request${abandoned.length === 1 ? "" : "s"} closed without merge`,
+      reason: "Abandoned work usually means an unclear plan or a boundary conflict",
+      urgency: abandoned.length > 2 ? "do-now" : "monitor",
+    });
+  }
+  for (const f of friction.filter((x) => x.severity !== "low").slice(0, 2)) {
+    orchestratorActions.push({ action: `Stabilize ${f.component}`, reason: f.issue, urgency: f.severity === "critical" ? "do-now" : "monitor" });
+  }
+  orchestratorActions.push({ action: "Keep the current cadence", reason: `${commits.length} commits and ${merged.length} merged PRs in the fetched window`, urgency: "ignore" });
+
+  const focusArea = agents[0]?.[0] ?? "general";
+  const analysis: HighFidelityAnalysis = {
+    gravityScore,
+    executiveSummary: `Mock analysis of ${input.owner}/${input.name}: ${commits.length} commits and ${prs.length} pull requests `
+      + `(${merged.length} merged, ${abandoned.length} closed unmerged) across ${agents.length || "no"} identifiable agent${agents.length === 1 ? "" : "s"}. `
+      + `Most activity concerns ${focusArea}. ${friction.length} friction item${friction.length === 1 ? "" : "s"} found.`,
+    metrics: {
+      totalCommits: commits.length,
+      totalPRs: prs.length,
+      activeAgents: agentStates.filter((s) => s.currentStatus === "active").length,
+      focusArea,
+    },
+    significantProgress: merged.slice(0, 5).map((pr) => ({
+      description: pr.title,
+      actor: /\bplan/i.test(pr.title) ? "planner" : "executor",
+      link: (pr.prNumber != null && input.links.pullRequest(pr.prNumber)) || undefined,
+    })),
+    frictionAndThrashing: friction.slice(0, 10),
+    boundaryViolations: boundaryViolations.slice(0, 10),
+    orchestratorActions,
+    agentStates,
+  };
+
+  return highFidelityAnalysisSchema.parse(analysis);
+}
+
+export interface MockAgentAnalysisInput {
+  agentName: string;
+  boundaries: string[] | null;
+  files: AgentFileContent[];
+  // Attributed commits and pull requests
+  events: NewActivityEvent[];
+}
+
+type Severity = AgentAnalysis["stuckSignals"][number]["severity"];
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+// Plans that name steps or checkboxes and have some substance read as actionable
+function ratePlans(plans: AgentFileContent[]): AgentAnalysis["planQuality"] {
+  if (plans.length === 0) return { rating: "missing", findings: ["No plans were found for this agent"] };
+  const structured = plans.filter((p) => /^\s*(?:[-*] \[[ x]\]|\d+\.)\s/m.test(p.content));
+  const averageChars = plans.reduce((sum, p) => sum + p.content.trim().length, 0) / plans.length;
+  const rating = averageChars >= 400 && structured.length * 2 >= plans.length ? "strong" : averageChars >= 150 ? "adequate" : "weak";
+  return {
+    rating,
+    findings: [
+      `${plural(plans.length, "plan")} read, ${Math.round(averageChars)} characters on average`,
+      `${structured.length} of ${plans.length} list numbered steps or checkboxes`,
+    ],
+  };
+}
+
+/**
+ * Builds a schema-valid deep dive for one agent without calling a model,
+ * from its files and attributed activity. Like buildMockAnalysis, time is
+ * measured from the newest event so the result is deterministic.
+ */
+export function buildMockAgentAnalysis(input: MockAgentAnalysisInput): AgentAnalysis {
+  const { agentName, files, events } = input;
+  const newest = Math.max(0, ...events.map((e) => new Date(e.createdAt).getTime()));
+  const commits = events.filter((e) => e.type === "commit");
+  const prs = events.filter((e) => e.type === "pull_request");
+  const merged = prs.filter((p) => p.state === "merged");
+  const abandoned = prs.filter((p) => p.state === "closed");
+  const staleOpen = prs.filter((p) => p.state === "open" && newest - new Date(p.createdAt).getTime() > 7 * DAY_MS);
+  const reverts = commits.filter((c) => /^revert\b/i.test(c.title));
+
+  const planQuality = ratePlans(files.filter((f) => f.type === "plan"));
+
+  const closedCount = merged.length + abandoned.length;
+  const mergeRate = closedCount > 0 ? merged.length / closedCount : null;
+  const executionFidelity: AgentAnalysis["executionFidelity"] = {
+    rating: mergeRate === null ? (commits.length > 0 ? "partial" : "unknown") : mergeRate >= 0.8 ? "faithful" : mergeRate >= 0.5 ? "partial" : "divergent",
+    findings: [
+      `${plural(commits.length, "commit")} and ${plural(prs.length, "pull request")} attributed`,
+      ...(mergeRate !== null ? [`${merged.length} of ${closedCount} closed pull requests merged`] : []),
+    ],
+  };
+
+  // Work titled for another agent is the cheapest drift signal without a model
+  const scopeDrift: AgentAnalysis["scopeDrift"] = events
+    .filter((e) => {
+      const named = agentOf(e.title);
+      return named !== null && named !== agentName.toUpperCase();
+    })
+    .slice(0, 5)
+    .map((e) => ({
+      description: `Work titled for ${agentOf(e.title)}`,
+      evidence: e.prNumber != null ? `PR #${e.prNumber}: ${e.title}` : `${e.sha?.slice(0, 7) ?? "commit"} ${e.title}`,
+      severity: "medium",
+    }));
+
+  const stuckSignals: AgentAnalysis["stuckSignals"] = [];
+  const severityOf = (count: number): Severity => (count > 2 ? "critical" : count > 1 ? "medium" : "low");
+  if (reverts.length > 0) {
+    stuckSignals.push({ signal: plural(reverts.length, "revert"), evidence: reverts[0].title, severity: severityOf(reverts.length) });
+  }
+  if (abandoned.length > 0) {
+    stuckSignals.push({
+      signal: `${plural(abandoned.length, "pull request")} closed without merging`,
+      evidence: abandoned.slice(0, 3).map((p) => `#${p.prNumber}`).join(", "),
+      severity: severityOf(abandoned.length),
+    });
+  }
+  if (staleOpen.length > 0) {
+    stuckSignals.push({
+      signal: `${plural(staleOpen.length, "pull request")} open for more than a week`,
+      evidence: staleOpen.slice(0, 3).map((p) => `#${p.prNumber}`).join(", "),
+      severity: severityOf(staleOpen.length),
+    });
+  }
+
+  const promptFile = (types: AgentFileType[]) => files.find((f) => types.includes(f.type))?.path ?? `${agentName} prompt`;
+  const recommendedPromptEdits: AgentAnalysis["recommendedPromptEdits"] = [];
+  if (planQuality.rating === "missing" || planQuality.rating === "weak") {
+    recommendedPromptEdits.push({
+      file: promptFile(["planning-prompt", "prompt"]),
+      change: "Require each plan to list the files it will touch and numbered acceptance criteria",
+      reason: `Plan quality is ${planQuality.rating}`,
+    });
+  }
+  if (abandoned.length + reverts.length > 1) {
+    recommendedPromptEdits.push({
+      file: promptFile(["execution-prompt", "prompt"]),
+      change: "Limit each pull request to one plan step and require tests before opening it",
+      reason: `${plural(abandoned.length, "abandoned pull request")} and ${plural(reverts.length, "revert")}`,
+    });
+  }
+  if (scopeDrift.length > 0) {
+    recommendedPromptEdits.push({
+      file: promptFile(["execution-prompt", "planning-prompt", "prompt"]),
+      change: input.boundaries?.length ? "Restate the boundaries at the top of the prompt and forbid edits outside them" : "Declare the agent's boundaries",
+      reason: `${plural(scopeDrift.length, "item")} of work titled for other agents`,
+    });
+  }
+
+  const penalty = stuckSignals.reduce((sum, s) => sum + (s.severity === "critical" ? 15 : s.severity === "medium" ? 8 : 3), 0)
+    + scopeDrift.length * 4
+    + (planQuality.rating === "missing" ? 15 : planQuality.rating === "weak" ? 8 : 0);
+  const healthScore = Math.max(0, Math.min(100, Math.round(60 + (mergeRate ?? 0.5) * 30 + Math.min(events.length, 10) - penalty)));
+
+  const analysis: AgentAnalysis = {
+    healthScore,
+    summary: `Mock deep dive of ${agentName}: ${plural(commits.length, "commit")} and ${plural(prs.length, "pull request")} `
+      + `(${merged.length} merged, ${abandoned.length} closed unmerged). Plans are ${planQuality.rating}, execution is ${executionFidelity.rating}; `
+      + `${plural(stuckSignals.length, "stuck signal")} and ${plural(scopeDrift.length, "drift item")} found.`,
+    planQuality,
+    executionFidelity,
+    scopeDrift,
+    stuckSignals,
+    recommendedPromptEdits,
+  };
+
+  return agentAnalysisSchema.parse(analysis);
+}
@@ -0,0 +1,70 @@
+import type { Request, Response } from "express";
+import type { ProgressEvent } from "../shared/schema.js";
+
+/**
+ * Reports progress for a long-running request. When the client asks for a
+ * stream (`stream: true` in the body) the response becomes Server-Sent Events:
+ * `progress` events while working, then a single `result` or `error` event.
+ * Otherwise progress is dropped and the result is sent as plain JSON.
+ */
+export interface ProgressChannel {
+  readonly streaming: boolean;
+  // Aborted when the client disconnects before the work finished
+  readonly signal: AbortSignal;
+  emit(event: ProgressEvent): void;
+  finish(body: unknown): void;
+  fail(status: number, message: string): void;
+}
+
+function writeEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export function openProgressChannel(req: Request, res: Response): ProgressChannel {
+  const streaming = req.body?.stream === true;
+  const controller = new AbortController();
+  let done = false;
+
+  res.on("close", () => {
+    if (!done) controller.abort(new Error("Request cancelled by client"));
+  });
+
+  if (streaming) {
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+  }
+
+  return {
+    streaming,
+    signal: controller.signal,
+    emit(event) {
+      if (!streaming || done || controller.signal.aborted) return;
+      writeEvent(res, "progress", event);
+    },
+    finish(body) {
+      if (done) return;
+      done = true;
+      if (controller.signal.aborted) return;
+      if (streaming) {
+        writeEvent(res, "result", body);
+        res.end();
+      } else {
+        res.json(body);
+      }
+    },
+    fail(status, message) {
+      if (done) return;
+      done = true;
+      if (controller.signal.aborted) return;
+      if (streaming) {
+        writeEvent(res, "error", { status, message });
+        res.end();
+      } else {
+        res.status(status).json({ message });
+      }
+    },
+  };
+}
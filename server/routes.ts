@@ -1,16 +1,46 @@
 import type { Express } from "express";
 import type { Server } from "http";
-import { Octokit } from "@octokit/rest";
-import { generateText, generateObject } from "ai";
-import { highFidelityAnalysisSchema } from "../shared/schema.js";
-import { createOpenAI } from "@ai-sdk/openai";
-import { createAnthropic } from "@ai-sdk/anthropic";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { generateText, streamObject } from "ai";
+import { fromZodError } from "zod-validation-error";
+import {
+  agentAnalysisInputSchema,
+  agentAnalysisSchema,
+  analysisContextSchema,
+  gitRefSchema,
+  layoutConfigSchema,
+  promptTemplateSchema,
+  refRequestSchema,
+  syncRequestSchema,
+  type AgentAnalysis,
+  type HighFidelityAnalysis,
+  type EnrichResponse,
+  type NewActivityEvent,
+  type AgentFile,
+  type AgentRole,
+  type LayoutConfig,
+  type PromptTemplate,
+  type RosterComparison,
+  type RosterFileChange,
+  type ScanChanges,
+  type Settings,
+} from "../shared/schema.js";
+import { classifyPaths, DEFAULT_LAYOUT, LAYOUT_FILE_PATH, SHARED_AGENT, type ClassifiedFile } from "../shared/layout.js";
+import { unknownPromptVariables } from "../shared/prompt-template.js";
+import { repoLinks } from "../shared/repo-links.js";
+import { parseAgentState } from "../shared/status-parser.js";
+import { openProgressChannel } from "./progress";
+import { getGiteaUrl, getGitlabUrl, getOctokit, resolveSource, type RepositorySource, type TreeEntry } from "./sources";
+import { buildMockAgentAnalysis, buildMockAnalysis } from "./mock-analysis";
+import { analysisSchemaFor, rosterAgentNames, type AgentDocument } from "./analysis-prompt";
+import { buildAnalysisContext, inputBudget } from "./analysis-context";
+import { buildAgentAnalysisPrompt, toActivityEvents, type AgentFileContent } from "./agent-analysis";
+import { getAiProvider, loadAiProviders, summarizeAiProvider, type ResolvedAiProvider } from "./ai-providers";
 
 function safeErrorMessage(error: any, fallback: string): string {
   const msg = error?.message || "";
   if (msg.includes("environment variable")) return msg;
   if (msg.includes("owner and name")) return msg;
+  if (msg.includes("No fixture for")) return msg;
   console.error("Proxy error:", error);
   return fallback;
 }
@@ -24,68 +54,124 @@ function maskSecret(value: string | null | undefined): string | null {
 function getEnvSettings() {
   return {
     githubPat: process.env.GITHUB_PAT || null,
+    githubMode: process.env.GITHUB_MODE || "live",
     aiProvider: process.env.AI_PROVIDER || "openai",
     aiApiKey: process.env.AI_API_KEY || null,
     aiModel: process.env.AI_MODEL || "gpt-4",
   };
 }
 
-function getOctokit(): Octokit {
-  const { githubPat } = getEnvSettings();
-  if (!githubPat) {
-    throw new Error("GITHUB_PAT environment variable is not set");
-  }
-  return new Octokit({ auth: githubPat });
-}
-
-type ClassifiedFile = {
-  path: string;
-  fileType: "planning-prompt" | "execution-prompt" | "prompt" | "status" | "progress" | "plan" | "governance" | "other";
-  agentName: string;
+// What the client remembers from its last scan (roles as stored in IndexedDB)
+type PreviousScan = {
+  treeSha: string | null;
+  roles: Pick<AgentRole, "name" | "description" | "boundaries" | "files" | "state">[];
 };
 
-function extractLastPage(linkHeader: string | undefined): number | null {
-  if (!linkHeader) return null;
-  const match = linkHeader.match(/<[^>]*[?&]page=(\d+)[^>]*>;\s*rel="last"/);
-  return match ? parseInt(match[1], 10) : null;
+function pickDescriptionFile(files: Pick<AgentFile, "path" | "type">[]) {
+  return files.find((f) => f.type === "status")
+    || files.find((f) => f.type === "planning-prompt")
+    || files.find((f) => f.type === "prompt")
+    || files[0];
 }
 
-async function getTotalCounts(octokit: Octokit, owner: string, name: string): Promise<{ totalCommits: number; totalPrs: number }> {
-  let totalCommits = 0;
-  let totalPrs = 0;
+function pickBoundaryFile(files: Pick<AgentFile, "path" | "type">[]) {
+  return files.find((f) => f.type === "planning-prompt")
+    || files.find((f) => f.type === "execution-prompt")
+    || files.find((f) => f.type === "prompt");
+}
 
-  try {
-    const commitRes = await octokit.rest.repos.listCommits({ owner, repo: name, per_page: 1 });
-    const commitLastPage = extractLastPage(commitRes.headers.link);
-    totalCommits = commitLastPage ?? commitRes.data.length;
-  } catch { /* fallback to 0 */ }
+// Bullets of the `## Boundaries` section
+function extractBoundaries(content: string): string[] {
+  const boundaryMatch = content.match(/## Boundaries\n([\s\S]*?)(?=\n##|\n$|$)/i);
+  if (!boundaryMatch) return [];
+  return boundaryMatch[1].split("\n").filter((l: string) => l.trim().startsWith("-")).map((l: string) => l.replace(/^-\s*/, "").trim());
+}
+
+type LayoutSource = "repository" | "user" | "default";
 
-  try {
-    const prRes = await octokit.rest.pulls.list({ owner, repo: name, state: "all", per_page: 1 });
-    const prLastPage = extractLastPage(prRes.headers.link);
-    totalPrs = prLastPage ?? prRes.data.length;
-  } catch { /* fallback to 0 */ }
+// Regex rules are checked for backtracking, but each still runs once per path
+const MAX_REGEX_PATH_CHECKS = 2_000_000;
 
-  return { totalCommits, totalPrs };
+function parseLayout(raw: unknown, origin: string, pathCount: number): LayoutConfig {
+  const parsed = layoutConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid layout rules in ${origin}: ${fromZodError(parsed.error).message}`);
+  }
+  const regexRules = parsed.data.rules.filter((rule) => rule.syntax === "regex").length;
+  if (regexRules * pathCount > MAX_REGEX_PATH_CHECKS) {
+    throw new Error(`Invalid layout rules in ${origin}: ${regexRules} regex rules are too many for ${pathCount} files; use glob rules instead`);
+  }
+  return parsed.data;
 }
 
-function getAIModel(provider: string, apiKey: string, model: string) {
-  switch (provider) {
-    case "openai": {
-      const openai = createOpenAI({ apiKey });
-      return openai(model);
-    }
-    case "anthropic": {
-      const anthropic = createAnthropic({ apiKey });
-      return anthropic(model);
-    }
-    case "google": {
-      const google = createGoogleGenerativeAI({ apiKey });
-      return google(model);
+// A committed .bha/layout.json wins over the user's stored rules, which win over the defaults
+async function resolveLayout(
+  source: RepositorySource,
+  branch: string,
+  tree: TreeEntry[],
+  userLayout: unknown,
+): Promise<{ layout: LayoutConfig; source: LayoutSource; committed: LayoutConfig | null }> {
+  let committed: LayoutConfig | null = null;
+  if (tree.some((item) => item.path === LAYOUT_FILE_PATH)) {
+    const file = await source.readFile(LAYOUT_FILE_PATH, branch);
+    if (file?.content) {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(file.content);
+      } catch {
+        throw new Error(`Invalid layout rules in ${LAYOUT_FILE_PATH}: not valid JSON`);
+      }
+      committed = parseLayout(raw, LAYOUT_FILE_PATH, tree.length);
     }
-    default:
-      throw new Error(`Unsupported AI provider: ${provider}`);
   }
+  if (committed) return { layout: committed, source: "repository", committed };
+  if (userLayout) return { layout: parseLayout(userLayout, "repository settings", tree.length), source: "user", committed };
+  return { layout: DEFAULT_LAYOUT, source: "default", committed };
+}
+
+// Agent files at one ref grouped by role name, with the blob SHA of every file
+type Roster = { roles: Map<string, ClassifiedFile[]>; blobShas: Map<string, string> };
+
+// Each side's committed layout rules apply to its own tree
+async function readRoster(source: RepositorySource, ref: string, userLayout: unknown): Promise<Roster> {
+  const { entries } = await source.getTree(ref);
+  const { layout } = await resolveLayout(source, ref, entries, userLayout);
+  const roles = new Map<string, ClassifiedFile[]>();
+  for (const cf of classifyPaths(entries.map((item) => item.path), layout)) {
+    const name = cf.agentName === SHARED_AGENT ? "SHARED" : cf.agentName;
+    roles.set(name, [...(roles.get(name) ?? []), cf]);
+  }
+  return { roles, blobShas: new Map(entries.map((item) => [item.path, item.sha])) };
+}
+
+const PROMPT_FILE_TYPES = new Set(["planning-prompt", "execution-prompt", "prompt"]);
+
+const SYNC_PAGE_SIZE = 100;
+const FILE_HISTORY_PAGE_SIZE = 30;
+
+const MAX_GROUNDING_CHARS = 4000;
+
+// Activity fetched for an analysis; what does not fit the model's context is summarized first
+const ANALYSIS_PAGE_SIZE = 100;
+const ANALYSIS_COMMIT_PAGES = 5;
+const ANALYSIS_PR_PAGES = 2;
+// Length of each per-period summary in a map-reduce analysis
+const MAP_OUTPUT_TOKENS = 1024;
+
+const ENRICH_CONCURRENCY = 5;
+const ENRICH_MAX_ITEMS = 50;
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
 }
 
 export async function registerRoutes(
@@ -95,13 +181,27 @@ export async function registerRoutes(
 
   app.get("/api/settings", (_req, res) => {
     const env = getEnvSettings();
-    res.json({
+    let aiProviders: Settings["aiProviders"] = [];
+    let aiProvidersError: string | null = null;
+    try {
+      const { providers, defaultId } = loadAiProviders();
+      aiProviders = providers.map((p) => summarizeAiProvider(p, defaultId, maskSecret));
+    } catch (error: any) {
+      aiProvidersError = error.message;
+    }
+    const settings: Settings = {
       githubPat: maskSecret(env.githubPat),
+      githubMode: env.githubMode,
+      gitlabUrl: getGitlabUrl(),
+      giteaUrl: getGiteaUrl(),
       aiProvider: env.aiProvider,
       aiApiKey: maskSecret(env.aiApiKey),
       aiModel: env.aiModel,
-      configured: !!(env.githubPat && env.aiApiKey),
-    });
+      configured: !!((env.githubPat || env.githubMode === "fixture") && aiProviders.length > 0),
+      aiProviders,
+      aiProvidersError,
+    };
+    res.json(settings);
   });
 
   app.get("/api/settings/test-github", async (_req, res) => {
@@ -116,40 +216,86 @@ export async function registerRoutes(
 
   app.post("/api/github/file-content", async (req, res) => {
     try {
-      const { owner, name, path, branch } = req.body;
-      if (!owner || !name || !path) {
-        return res.status(400).json({ message: "owner, name, and path are required" });
+      const { path } = req.body;
+      if (typeof path !== "string" || !path) {
+        return res.status(400).json({ message: "path is required" });
       }
-      const octokit = getOctokit();
-      const { data } = await octokit.rest.repos.getContent({
-        owner,
-        repo: name,
-        path,
-        ref: branch || "main",
-      });
-      if ("content" in data && data.content) {
-        const content = Buffer.from(data.content, "base64").toString("utf-8");
-        res.json({ content, path: data.path, size: data.size });
+      const parsedRef = refRequestSchema.safeParse(req.body);
+      if (!parsedRef.success) {
+        return res.status(400).json({ message: `Invalid ref: ${fromZodError(parsedRef.error).message}` });
+      }
+      const branch = parsedRef.data;
+      let source: RepositorySource;
+      try {
+        source = await resolveSource(req.body);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+      const file = await source.readFile(path, branch);
+      if (file) {
+        res.json(file);
       } else {
-        res.status(400).json({ message: "Not a file or content unavailable" });
+        res.status(404).json({ message: "Not a file or content unavailable" });
       }
     } catch (error: any) {
       res.status(500).json({ message: safeErrorMessage(error, "Failed to fetch file content.") });
     }
   });
 
-  app.get("/api/settings/test-ai", async (_req, res) => {
+  // Commits that touched one file, newest first. Read a version by passing
+  // the commit SHA as `branch` to file-content.
+  app.post("/api/github/file-history", async (req, res) => {
+    try {
+      const { path } = req.body;
+      if (typeof path !== "string" || !path) {
+        return res.status(400).json({ message: "path is required" });
+      }
+      const parsedRef = refRequestSchema.safeParse(req.body);
+      if (!parsedRef.success) {
+        return res.status(400).json({ message: `Invalid ref: ${fromZodError(parsedRef.error).message}` });
+      }
+      const branch = parsedRef.data;
+      const page = Number.isInteger(req.body.page) && req.body.page > 0 ? req.body.page : 1;
+      let source: RepositorySource;
+      try {
+        source = await resolveSource(req.body);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+      const { events, hasMore } = await source.listFileCommits({ path, ref: branch, page, perPage: FILE_HISTORY_PAGE_SIZE });
+      res.json({ commits: events, hasMore });
+    } catch (error: any) {
+      res.status(500).json({ message: safeErrorMessage(error, "Failed to fetch file history.") });
+    }
+  });
+
+  app.post("/api/github/refs", async (req, res) => {
+    try {
+      let source: RepositorySource;
+      try {
+        source = await resolveSource(req.body);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.json(await source.listRefs());
+    } catch (error: any) {
+      res.status(500).json({ message: safeErrorMessage(error, "Failed to fetch branches and tags.") });
+    }
+  });
+
+  // Tests the default provider, or the one named by ?provider=<id>
+  app.get("/api/settings/test-ai", async (req, res) => {
     try {
-      const env = getEnvSettings();
-      if (!env.aiProvider || !env.aiApiKey || !env.aiModel) {
-        throw new Error("AI_PROVIDER, AI_API_KEY, and AI_MODEL environment variables must be set");
+      const provider = getAiProvider(typeof req.query.provider === "string" ? req.query.provider : null);
+      if (provider.kind === "mock") {
+        return res.json({ success: true, provider: provider.config.id, response: "OK" });
       }
-      const model = getAIModel(env.aiProvider, env.aiApiKey, env.aiModel);
       const { text } = await generateText({
-        model,
+        model: provider.model,
+        ...provider.callSettings,
         prompt: "Hello, respond with OK",
       });
-      res.json({ success: true, response: text });
+      res.json({ success: true, provider: provider.config.id, response: text });
     } catch (error: any) {
       res.status(400).json({ success: false, message: safeErrorMessage(error, "AI connection failed. Check your AI_API_KEY and AI_PROVIDER.") });
     }
@@ -157,58 +303,28 @@ export async function registerRoutes(
 
   app.post("/api/github/repo", async (req, res) => {
     try {
-      const { owner, name } = req.body;
-      if (!owner || !name) {
-        return res.status(400).json({ message: "owner and name are required" });
+      let source: RepositorySource;
+      try {
+        source = await resolveSource(req.body);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
       }
-      const octokit = getOctokit();
-      const { data } = await octokit.rest.repos.get({ owner, repo: name });
-      res.json({
-        owner: data.owner.login,
-        name: data.name,
-        fullName: data.full_name,
-        description: data.description || null,
-        defaultBranch: data.default_branch,
-      });
+      res.json({ ...(await source.getInfo()), provider: source.provider });
     } catch (error: any) {
-      res.status(500).json({ message: safeErrorMessage(error, "Failed to fetch repository from GitHub.") });
+      res.status(500).json({ message: safeErrorMessage(error, "Failed to fetch repository.") });
     }
   });
 
   app.post("/api/github/counts", async (req, res) => {
     try {
-      const { owner, name, since } = req.body;
-      if (!owner || !name) {
-        return res.status(400).json({ message: "owner and name are required" });
-      }
-      const octokit = getOctokit();
-
-      let totalCommits = 0;
-      let totalPrs = 0;
-
-      // Commits: use listCommits with per_page=1 + Link header for count
-      try {
-        const commitParams: any = { owner, repo: name, per_page: 1 };
-        if (since) commitParams.since = since;
-        const commitRes = await octokit.rest.repos.listCommits(commitParams);
-        const commitLastPage = extractLastPage(commitRes.headers.link);
-        totalCommits = commitLastPage ?? commitRes.data.length;
-      } catch { /* fallback to 0 */ }
-
-      // PRs: use search API when filtering by date; pulls.list for all-time
+      const { since } = req.body;
+      let source: RepositorySource;
       try {
-        if (since) {
-          const sinceDate = since.split("T")[0]; // YYYY-MM-DD
-          const q = `repo:${owner}/${name} is:pr created:>=${sinceDate}`;
-          const searchRes = await octokit.rest.search.issuesAndPullRequests({ q, per_page: 1 });
-          totalPrs = searchRes.data.total_count;
-        } else {
-          const prRes = await octokit.rest.pulls.list({ owner, repo: name, state: "all", per_page: 1 });
-          const prLastPage = extractLastPage(prRes.headers.link);
-          totalPrs = prLastPage ?? prRes.data.length;
-        }
-      } catch { /* fallback to 0 */ }
-
+        source = await resolveSource(req.body);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+      const { totalCommits, totalPrs } = await source.countActivity(since || null);
       res.json({ totalCommits, totalPrs });
     } catch (error: any) {
       res.status(500).json({ message: safeErrorMessage(error, "Failed to fetch counts.") });
@@ -216,85 +332,45 @@ export async function registerRoutes(
   });
 
   app.post("/api/github/scan", async (req, res) => {
+    const progress = openProgressChannel(req, res);
     try {
-      const { owner, name, defaultBranch } = req.body;
-      if (!owner || !name) {
-        return res.status(400).json({ message: "owner and name are required" });
+      let source: RepositorySource;
+      try {
+        source = await resolveSource(req.body);
+      } catch (error: any) {
+        return progress.fail(400, error.message);
       }
-      const octokit = getOctokit();
-      const branch = defaultBranch || "main";
+      const parsedRef = refRequestSchema.safeParse(req.body);
+      if (!parsedRef.success) {
+        return progress.fail(400, `Invalid ref: ${fromZodError(parsedRef.error).message}`);
+      }
+      const branch = parsedRef.data;
+      const previous: PreviousScan = {
+        treeSha: req.body.previous?.treeSha ?? null,
+        roles: Array.isArray(req.body.previous?.roles) ? req.body.previous.roles : [],
+      };
 
-      let tree: any[] = [];
+      let tree: TreeEntry[] = [];
+      let treeSha: string;
       try {
-        const { data } = await octokit.rest.git.getTree({
-          owner,
-          repo: name,
-          tree_sha: branch,
-          recursive: "1",
-        });
-        tree = data.tree;
+        ({ sha: treeSha, entries: tree } = await source.getTree(branch));
       } catch (e: any) {
-        return res.status(400).json({ message: "Failed to fetch repo tree: " + e.message });
+        return progress.fail(400, "Failed to fetch repo tree: " + e.message);
       }
 
-      // ---- Pass 1: classify every relevant file and extract its base agent name ----
-      const classified: ClassifiedFile[] = [];
-
-      const patterns: { regex: RegExp; fileType: ClassifiedFile["fileType"]; nameIndex: number; nameTransform?: (n: string) => string; fixedAgent?: string }[] = [
-        // Domain agent prompt pairs
-        { regex: /^docs\/prompts\/planning-([^/]+)\.md$/i, fileType: "planning-prompt", nameIndex: 1, nameTransform: (n) => n.toUpperCase() },
-        { regex: /^docs\/prompts\/execution-([^/]+)\.md$/i, fileType: "execution-prompt", nameIndex: 1, nameTransform: (n) => n.toUpperCase() },
-        // Daily agent single prompts (exclude README and planning-*/execution-* which matched above)
-        { regex: /^docs\/prompts\/(?!planning-|execution-|README)([^/]+)\.md$/i, fileType: "prompt", nameIndex: 1, nameTransform: (n) => n.toUpperCase() },
-        // Status files
-        { regex: /^docs\/status\/([^/]+)\.md$/i, fileType: "status", nameIndex: 1, nameTransform: (n) => n.toUpperCase() },
-        // Progress logs
-        { regex: /^docs\/PROGRESS-([^/]+)\.md$/i, fileType: "progress", nameIndex: 1, nameTransform: (n) => n.toUpperCase() },
-        // Plans in agent-named subdirectories: .sys/plans/{agent}/...
-        { regex: /^\.sys\/plans\/([^/]+)\/.+$/i, fileType: "plan", nameIndex: 1, nameTransform: (n) => n.toUpperCase() },
-        // Shared governance files
-        { regex: /^AGENTS\.md$/i, fileType: "governance", nameIndex: -1, fixedAgent: "_SHARED" },
-        { regex: /^CLAUDE\.md$/i, fileType: "governance", nameIndex: -1, fixedAgent: "_SHARED" },
-        // .github/agents
-        { regex: /^\.github\/agents\/.+$/i, fileType: "other", nameIndex: -1, fixedAgent: "_SHARED" },
-      ];
-
-      for (const item of tree) {
-        if (item.type !== "blob") continue;
-        const p = item.path as string;
-
-        for (const pat of patterns) {
-          const m = p.match(pat.regex);
-          if (m) {
-            const agentName = pat.fixedAgent ?? (pat.nameTransform ? pat.nameTransform(m[pat.nameIndex]) : m[pat.nameIndex]);
-            classified.push({ path: p, fileType: pat.fileType, agentName });
-            break; // first match wins
-          }
-        }
-      }
+      progress.emit({ phase: "tree", message: `Fetched repository tree (${tree.length} files)` });
 
-      // For loose plan files like .sys/plans/2026-10-29-PLAYER-Async-Seek.md,
-      // try to attribute to a known agent by checking if agent name appears in filename
-      const knownAgents = new Set(classified.map((f) => f.agentName).filter((n) => n !== "_SHARED"));
-
-      for (const item of tree) {
-        if (item.type !== "blob") continue;
-        const p = item.path as string;
-        // Only match files directly in .sys/plans/ (not subdirectories, which are already classified)
-        if (!/^\.sys\/plans\/[^/]+\.md$/i.test(p)) continue;
-        // Skip if already classified
-        if (classified.some((c) => c.path === p)) continue;
-
-        const fileName = p.split("/").pop() || "";
-        const upperFileName = fileName.toUpperCase();
-        for (const agent of knownAgents) {
-          if (upperFileName.includes(agent)) {
-            classified.push({ path: p, fileType: "plan", agentName: agent });
-            break;
-          }
-        }
+      let layout: LayoutConfig;
+      try {
+        ({ layout } = await resolveLayout(source, branch, tree, req.body.layout));
+      } catch (e: any) {
+        return progress.fail(400, e.message);
       }
 
+      // ---- Pass 1: classify every relevant file and extract its base agent name ----
+      const classified = classifyPaths(tree.map((item) => item.path), layout);
+      progress.emit({ phase: "classify", message: `Classified ${classified.length} agent files`, current: classified.length, total: tree.length });
+
       // ---- Pass 2: group by agent name and build consolidated roles ----
       const agentMap = new Map<string, ClassifiedFile[]>();
       for (const cf of classified) {
@@ -303,20 +379,29 @@ export async function registerRoutes(
         agentMap.set(cf.agentName, existing);
       }
 
-      // Fetch content for description & boundary extraction
+      // Blob SHAs from the previous scan let us skip files that have not changed since
+      const blobShas = new Map(tree.map((item) => [item.path, item.sha]));
+      const previousRoles = new Map(previous.roles.map((r) => [r.name, r]));
+      const previousFiles = new Map<string, AgentFile>();
+      for (const role of previous.roles) {
+        for (const f of role.files) previousFiles.set(f.path, f);
+      }
+      const isUnchanged = (filePath: string) => {
+        const prev = previousFiles.get(filePath);
+        return !!prev?.sha && prev.sha === blobShas.get(filePath);
+      };
+
+      // Fetch content for description, boundary & state extraction
       // Use a cache to avoid fetching the same file twice, and parallelize all fetches
       const contentCache = new Map<string, string>();
 
       async function fetchContent(filePath: string): Promise<string | null> {
         if (contentCache.has(filePath)) return contentCache.get(filePath)!;
         try {
-          const { data } = await octokit.rest.repos.getContent({
-            owner, repo: name, path: filePath, ref: branch,
-          });
-          if ("content" in data && data.content) {
-            const content = Buffer.from(data.content, "base64").toString("utf-8");
-            contentCache.set(filePath, content);
-            return content;
+          const file = await source.readFile(filePath, branch);
+          if (file?.content) {
+            contentCache.set(filePath, file.content);
+            return file.content;
           }
         } catch { /* skip */ }
         return null;
@@ -325,46 +410,60 @@ export async function registerRoutes(
       // Collect which files each agent needs fetched
       type AgentWork = {
         agentName: string;
+        displayName: string;
         files: ClassifiedFile[];
         descPath: string | null;
         boundaryPath: string | null;
+        statePaths: string[];
+        reuseDescription: boolean;
+        reuseBoundaries: boolean;
+        reuseState: boolean;
       };
 
       const workItems: AgentWork[] = [];
       for (const [agentName, files] of agentMap) {
-        const descFile = files.find((f) => f.fileType === "status")
-          || files.find((f) => f.fileType === "planning-prompt")
-          || files.find((f) => f.fileType === "prompt")
-          || files[0];
-
-        const boundaryFile = files.find((f) => f.fileType === "planning-prompt")
-          || files.find((f) => f.fileType === "execution-prompt")
-          || files.find((f) => f.fileType === "prompt");
-
-        workItems.push({
-          agentName,
-          files,
-          descPath: descFile?.path ?? null,
-          boundaryPath: boundaryFile?.path ?? null,
-        });
+        const agentFiles = files.map((f) => ({ path: f.path, type: f.fileType }));
+        const descPath = pickDescriptionFile(agentFiles)?.path ?? null;
+        const boundaryPath = pickBoundaryFile(agentFiles)?.path ?? null;
+        const statePaths = agentFiles.filter((f) => f.type === "status" || f.type === "progress").map((f) => f.path);
+        const displayName = agentName === SHARED_AGENT ? "SHARED" : agentName;
+
+        // Reuse the previous role's text when it was derived from the same, unchanged file
+        const prevRole = previousRoles.get(displayName);
+        const reuseDescription = !!prevRole && !!descPath
+          && pickDescriptionFile(prevRole.files)?.path === descPath && isUnchanged(descPath);
+        const reuseBoundaries = !!prevRole && !!boundaryPath
+          && pickBoundaryFile(prevRole.files)?.path === boundaryPath && isUnchanged(boundaryPath);
+        // Roles stored before state parsing have no `state` and are parsed again
+        const prevStatePaths = prevRole?.files.filter((f) => f.type === "status" || f.type === "progress").map((f) => f.path) ?? [];
+        const reuseState = !!prevRole && prevRole.state !== undefined
+          && prevStatePaths.join("\n") === statePaths.join("\n") && statePaths.every(isUnchanged);
+
+        workItems.push({ agentName, displayName, files, descPath, boundaryPath, statePaths, reuseDescription, reuseBoundaries, reuseState });
       }
 
       // Deduplicate paths and fetch all in parallel
       const uniquePaths = new Set<string>();
       for (const w of workItems) {
-        if (w.descPath) uniquePaths.add(w.descPath);
-        if (w.boundaryPath) uniquePaths.add(w.boundaryPath);
+        if (w.descPath && !w.reuseDescription) uniquePaths.add(w.descPath);
+        if (w.boundaryPath && !w.reuseBoundaries) uniquePaths.add(w.boundaryPath);
+        if (!w.reuseState) w.statePaths.forEach((p) => uniquePaths.add(p));
       }
-      await Promise.all(Array.from(uniquePaths).map((p) => fetchContent(p)));
+      progress.signal.throwIfAborted();
+      let contentsFetched = 0;
+      await Promise.all(Array.from(uniquePaths).map(async (p) => {
+        await fetchContent(p);
+        contentsFetched++;
+        progress.emit({ phase: "contents", message: `Fetched ${contentsFetched}/${uniquePaths.size} prompt, status and progress files`, current: contentsFetched, total: uniquePaths.size });
+      }));
 
       // Fetch dates for dynamically created agent files (plans, status, progress)
       const fileDateCache = new Map<string, string>();
       async function fetchFileDate(filePath: string): Promise<string | null> {
         if (fileDateCache.has(filePath)) return fileDateCache.get(filePath)!;
         try {
-          const { data } = await octokit.rest.repos.listCommits({ owner, repo: name, path: filePath, per_page: 1 });
-          if (data.length > 0 && data[0].commit.author?.date) {
-             const d = data[0].commit.author.date;
+          const d = await source.getLastModified(filePath, branch);
+          if (d) {
              fileDateCache.set(filePath, d);
              return d;
           }
@@ -375,171 +474,612 @@ export async function registerRoutes(
       const filePathsToDate = new Set<string>();
       for (const cf of classified) {
         if (cf.fileType === "plan" || cf.fileType === "status" || cf.fileType === "progress") {
-          filePathsToDate.add(cf.path);
+          const prevDate = previousFiles.get(cf.path)?.date;
+          if (prevDate && isUnchanged(cf.path)) {
+            fileDateCache.set(cf.path, prevDate);
+          } else {
+            filePathsToDate.add(cf.path);
+          }
         }
       }
-      await Promise.all(Array.from(filePathsToDate).map(p => fetchFileDate(p)));
+      progress.signal.throwIfAborted();
+      let datesResolved = 0;
+      await Promise.all(Array.from(filePathsToDate).map(async (p) => {
+        await fetchFileDate(p);
+        datesResolved++;
+        progress.emit({ phase: "dates", message: `Resolved ${datesResolved}/${filePathsToDate.size} file dates`, current: datesResolved, total: filePathsToDate.size });
+      }));
 
       // Now build roles from cached content (no more API calls)
       const roles = [];
-      for (const { agentName, files, descPath, boundaryPath } of workItems) {
+      for (const { agentName, displayName, files, descPath, boundaryPath, statePaths, reuseDescription, reuseBoundaries, reuseState } of workItems) {
         const hasPlanning = files.some((f) => f.fileType === "planning-prompt");
         const hasExecution = files.some((f) => f.fileType === "execution-prompt");
-        const category = agentName === "_SHARED" ? "shared" as const : (hasPlanning || hasExecution) ? "domain" as const : "daily" as const;
+        const category = agentName === SHARED_AGENT ? "shared" as const : (hasPlanning || hasExecution) ? "domain" as const : "daily" as const;
+        const prevRole = previousRoles.get(displayName);
 
-        let description: string | null = null;
-        if (descPath) {
+        let description: string | null = reuseDescription ? prevRole!.description : null;
+        if (descPath && !reuseDescription) {
           const content = contentCache.get(descPath);
           if (content) {
             description = content.split("\n").slice(0, 5).join("\n").trim() || `Agent: ${agentName}`;
           }
         }
 
-        let boundaries: string[] | null = null;
-        if (boundaryPath) {
+        let boundaries: string[] | null = reuseBoundaries ? prevRole!.boundaries : null;
+        if (boundaryPath && !reuseBoundaries) {
           const content = contentCache.get(boundaryPath);
           if (content) {
-            const boundaryMatch = content.match(/## Boundaries\n([\s\S]*?)(?=\n##|\n$|$)/i);
-            if (boundaryMatch) {
-              boundaries = boundaryMatch[1].split("\n").filter((l: string) => l.trim().startsWith("-")).map((l: string) => l.replace(/^-\s*/, "").trim());
-            }
+            boundaries = extractBoundaries(content);
           }
         }
 
-        const displayName = agentName === "_SHARED" ? "SHARED" : agentName;
+        const state = reuseState ? prevRole!.state ?? null : parseAgentState(statePaths.flatMap((p) => {
+          const content = contentCache.get(p);
+          const type = files.find((f) => f.path === p)!.fileType;
+          return content ? [{ path: p, type, content }] : [];
+        }));
 
         roles.push({
           name: displayName,
           description,
-          files: files.map((f) => ({ path: f.path, type: f.fileType, date: fileDateCache.get(f.path) || null })),
+          files: files.map((f): AgentFile => ({
+            path: f.path,
+            type: f.fileType,
+            sha: blobShas.get(f.path) ?? null,
+            date: fileDateCache.get(f.path) || null,
+          })),
           category,
           boundaries: boundaries && boundaries.length > 0 ? boundaries : null,
+          state,
           status: "active",
         });
       }
 
-      res.json(roles);
+      // ---- Pass 3: report what changed relative to the previous scan ----
+      const changes: ScanChanges = {
+        rolesAdded: [], rolesRemoved: [], rolesChanged: [],
+        filesAdded: [], filesRemoved: [], filesChanged: [],
+      };
+      const currentPaths = new Set<string>();
+      for (const role of roles) {
+        const prevRole = previousRoles.get(role.name);
+        if (!prevRole) changes.rolesAdded.push(role.name);
+        let roleChanged = !!prevRole && (
+          role.description !== prevRole.description
+          || JSON.stringify(role.boundaries) !== JSON.stringify(prevRole.boundaries)
+          || JSON.stringify(role.state) !== JSON.stringify(prevRole.state ?? null)
+          || role.files.length !== prevRole.files.length
+        );
+        for (const f of role.files) {
+          currentPaths.add(f.path);
+          const prevFile = previousFiles.get(f.path);
+          if (!prevFile) {
+            changes.filesAdded.push(f.path);
+            roleChanged = true;
+          } else if (prevFile.sha !== f.sha) {
+            changes.filesChanged.push(f.path);
+            roleChanged = true;
+          }
+        }
+        if (prevRole && roleChanged) changes.rolesChanged.push(role.name);
+      }
+      for (const prevRole of previous.roles) {
+        if (!roles.some((r) => r.name === prevRole.name)) changes.rolesRemoved.push(prevRole.name);
+      }
+      for (const filePath of previousFiles.keys()) {
+        if (!currentPaths.has(filePath)) changes.filesRemoved.push(filePath);
+      }
+
+      progress.emit({ phase: "done", message: `Built ${roles.length} agent roles` });
+      progress.finish({
+        treeSha,
+        unchanged: previous.treeSha === treeSha && Object.values(changes).every((list) => list.length === 0),
+        roles,
+        changes,
+        fetched: { contents: uniquePaths.size, dates: filePathsToDate.size },
+      });
     } catch (error: any) {
-      res.status(500).json({ message: safeErrorMessage(error, "Failed to scan repository.") });
+      if (progress.signal.aborted) return;
+      progress.fail(500, safeErrorMessage(error, "Failed to scan repository."));
     }
   });
 
-  app.post("/api/github/analyze", async (req, res) => {
+  app.post("/api/github/layout-preview", async (req, res) => {
     try {
-      const { owner, name } = req.body;
-      if (!owner || !name) {
-        return res.status(400).json({ message: "owner and name are required" });
+      const { layout: draft } = req.body;
+      let source: RepositorySource;
+      try {
+        source = await resolveSource(req.body);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
       }
-
-      const env = getEnvSettings();
-      if (!env.githubPat) {
-        return res.status(400).json({ message: "GITHUB_PAT environment variable is not set" });
+      const parsedRef = refRequestSchema.safeParse(req.body);
+      if (!parsedRef.success) {
+        return res.status(400).json({ message: `Invalid ref: ${fromZodError(parsedRef.error).message}` });
       }
-      if (!env.aiProvider || !env.aiApiKey || !env.aiModel) {
-        return res.status(400).json({ message: "AI_PROVIDER, AI_API_KEY, and AI_MODEL environment variables must be set" });
+      const branch = parsedRef.data;
+
+      let tree: TreeEntry[] = [];
+      try {
+        ({ entries: tree } = await source.getTree(branch));
+      } catch (e: any) {
+        return res.status(400).json({ message: "Failed to fetch repo tree: " + e.message });
       }
 
-      const octokit = new Octokit({ auth: env.githubPat });
+      // Preview the draft rules when given, otherwise whatever the scan would use
+      let preview: { layout: LayoutConfig; source: LayoutSource; committed: LayoutConfig | null };
+      try {
+        preview = await resolveLayout(source, branch, tree, null);
+        if (draft) preview = { ...preview, layout: parseLayout(draft, "draft", tree.length), source: "user" };
+      } catch (e: any) {
+        return res.status(400).json({ message: e.message });
+      }
 
-      // Get real totals via Link header pagination (not capped by per_page)
-      const { totalCommits: realTotalCommits, totalPrs: realTotalPrs } = await getTotalCounts(octokit, owner, name);
+      const classified = classifyPaths(tree.map((item) => item.path), preview.layout);
+      const rules = preview.layout.rules.map((rule, index) => {
+        const matches = classified.filter((cf) => cf.ruleIndex === index);
+        return {
+          index,
+          rule,
+          total: matches.length,
+          agents: Array.from(new Set(matches.map((cf) => cf.agentName))),
+          sample: matches.slice(0, 25).map((cf) => ({ path: cf.path, agentName: cf.agentName })),
+        };
+      });
 
-      const { data: commits } = await octokit.rest.repos.listCommits({
-        owner,
-        repo: name,
-        per_page: 100,
+      res.json({
+        source: preview.source,
+        committedLayout: preview.committed,
+        rules,
+        totalFiles: tree.length,
+        totalMatched: classified.length,
       });
+    } catch (error: any) {
+      res.status(500).json({ message: safeErrorMessage(error, "Failed to preview layout rules.") });
+    }
+  });
 
-      const { data: prs } = await octokit.rest.pulls.list({
-        owner,
-        repo: name,
-        state: "all",
-        per_page: 50,
-        sort: "updated",
-        direction: "desc",
+  // Roles added and removed from `base` to `head`, and for the roles on both
+  // sides the prompt files and boundary bullets that differ
+  app.post("/api/github/compare-rosters", async (req, res) => {
+    try {
+      const { base, head, layout: userLayout } = req.body;
+      if (!gitRefSchema.safeParse(base).success || !gitRefSchema.safeParse(head).success) {
+        return res.status(400).json({ message: "base and head must name a branch, tag or commit" });
+      }
+      let source: RepositorySource;
+      try {
+        source = await resolveSource(req.body);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      let before: Roster;
+      let after: Roster;
+      try {
+        [before, after] = await Promise.all([readRoster(source, base, userLayout), readRoster(source, head, userLayout)]);
+      } catch (e: any) {
+        return res.status(400).json({ message: "Failed to read agent files: " + e.message });
+      }
+
+      const read = async (ref: string, filePath: string | undefined) =>
+        filePath ? (await source.readFile(filePath, ref))?.content ?? null : null;
+
+      const comparison: RosterComparison = {
+        base,
+        head,
+        rolesAdded: Array.from(after.roles.keys()).filter((name) => !before.roles.has(name)).sort(),
+        rolesRemoved: Array.from(before.roles.keys()).filter((name) => !after.roles.has(name)).sort(),
+        rolesChanged: [],
+        rolesUnchanged: [],
+      };
+
+      const shared = Array.from(after.roles.keys()).filter((name) => before.roles.has(name)).sort();
+      // One role at a time per worker, reading its files in turn, keeps content requests within ENRICH_CONCURRENCY
+      await mapWithConcurrency(shared, ENRICH_CONCURRENCY, async (name) => {
+        const baseFiles = before.roles.get(name)!;
+        const headFiles = after.roles.get(name)!;
+
+        const files: RosterFileChange[] = [];
+        const prompts = new Map<string, ClassifiedFile>();
+        for (const cf of [...baseFiles, ...headFiles]) {
+          if (PROMPT_FILE_TYPES.has(cf.fileType)) prompts.set(cf.path, cf);
+        }
+        for (const cf of prompts.values()) {
+          const baseSha = baseFiles.some((f) => f.path === cf.path) ? before.blobShas.get(cf.path) : undefined;
+          const headSha = headFiles.some((f) => f.path === cf.path) ? after.blobShas.get(cf.path) : undefined;
+          if (baseSha === headSha) continue;
+          files.push({
+            path: cf.path,
+            type: cf.fileType,
+            change: !baseSha ? "added" : !headSha ? "removed" : "modified",
+            before: baseSha ? await read(base, cf.path) : null,
+            after: headSha ? await read(head, cf.path) : null,
+          });
+        }
+        files.sort((a, b) => a.path.localeCompare(b.path));
+
+        // Boundaries come from the same file the scan reads them from
+        const toFiles = (list: ClassifiedFile[]) => list.map((f) => ({ path: f.path, type: f.fileType }));
+        const baseBoundaryPath = pickBoundaryFile(toFiles(baseFiles))?.path;
+        const headBoundaryPath = pickBoundaryFile(toFiles(headFiles))?.path;
+        let boundariesAdded: string[] = [];
+        let boundariesRemoved: string[] = [];
+        if (baseBoundaryPath !== headBoundaryPath
+          || (baseBoundaryPath && before.blobShas.get(baseBoundaryPath) !== after.blobShas.get(baseBoundaryPath))) {
+          const changed = (path: string | undefined) => files.find((f) => f.path === path);
+          const baseContent = changed(baseBoundaryPath)?.before ?? await read(base, baseBoundaryPath);
+          const headContent = changed(headBoundaryPath)?.after ?? await read(head, headBoundaryPath);
+          const baseBoundaries = baseContent ? extractBoundaries(baseContent) : [];
+          const headBoundaries = headContent ? extractBoundaries(headContent) : [];
+          boundariesAdded = headBoundaries.filter((b) => !baseBoundaries.includes(b));
+          boundariesRemoved = baseBoundaries.filter((b) => !headBoundaries.includes(b));
+        }
+
+        if (files.length === 0 && boundariesAdded.length === 0 && boundariesRemoved.length === 0) {
+          comparison.rolesUnchanged.push(name);
+        } else {
+          comparison.rolesChanged.push({ name, boundariesAdded, boundariesRemoved, files });
+        }
       });
+      comparison.rolesChanged.sort((a, b) => a.name.localeCompare(b.name));
+      comparison.rolesUnchanged.sort();
 
-      const activityEvents = [];
-
-      for (const commit of commits) {
-        activityEvents.push({
-          type: "commit",
-          title: commit.commit.message.split("\n")[0],
-          description: commit.commit.message,
-          sha: commit.sha,
-          author: commit.commit.author?.name || commit.author?.login || "unknown",
-          additions: commit.stats?.additions || 0,
-          deletions: commit.stats?.deletions || 0,
-          filesChanged: commit.files?.length || 0,
-          createdAt: commit.commit.author?.date || new Date().toISOString(),
-        });
+      res.json(comparison);
+    } catch (error: any) {
+      res.status(500).json({ message: safeErrorMessage(error, "Failed to compare agent rosters.") });
+    }
+  });
+
+  // Pages through history newer than `since`, one page of commits and one of
+  // pull requests per call. Call again with the returned cursor until it is null.
+  app.post("/api/github/sync", async (req, res) => {
+    try {
+      const parsed = syncRequestSchema.safeParse({ since: req.body.since, cursor: req.body.cursor });
+      if (!parsed.success) {
+        return res.status(400).json({ message: `Invalid sync request: ${fromZodError(parsed.error).message}` });
       }
+      const { since, cursor } = parsed.data;
+      let source: RepositorySource;
+      try {
+        source = await resolveSource(req.body);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+      const commitsPage = cursor ? cursor.commitsPage : 1;
+      const prsPage = cursor ? cursor.prsPage : 1;
 
-      for (const pr of prs) {
-        activityEvents.push({
-          type: "pull_request",
-          title: pr.title,
-          description: pr.body || "",
-          prNumber: pr.number,
-          author: pr.user?.login || "unknown",
-          additions: (pr as any).additions || 0,
-          deletions: (pr as any).deletions || 0,
-          filesChanged: (pr as any).changed_files || 0,
-          createdAt: pr.created_at || pr.updated_at || new Date().toISOString(),
-        });
+      const events: NewActivityEvent[] = [];
+      let nextCommitsPage: number | null = null;
+      let nextPrsPage: number | null = null;
+
+      if (commitsPage !== null) {
+        const page = await source.listCommits({ since, page: commitsPage, perPage: SYNC_PAGE_SIZE });
+        events.push(...page.events);
+        if (page.hasMore) nextCommitsPage = commitsPage + 1;
       }
 
-      const commitSummary = commits.slice(0, 20).map((c) => `- ${c.commit.message.split("\n")[0]} (by ${c.commit.author?.name || "unknown"})`).join("\n");
-      const prSummary = prs.slice(0, 10).map((p) => `- PR #${p.number}: ${p.title} (${p.state}) by ${p.user?.login || "unknown"}`).join("\n");
+      if (prsPage !== null) {
+        const page = await source.listPullRequests({ updatedSince: since, page: prsPage, perPage: SYNC_PAGE_SIZE });
+        events.push(...page.events);
+        if (page.hasMore) nextPrsPage = prsPage + 1;
+      }
 
-      const prompt = `Analyze the following git activity for the repository "${owner}/${name}", which operates using the Black Hole Architecture.
+      const nextCursor = nextCommitsPage !== null || nextPrsPage !== null
+        ? { commitsPage: nextCommitsPage, prsPage: nextPrsPage }
+        : null;
 
-ROLE & OBJECTIVE:
-Act as a Principal Product Strategist and expert Technical Advisor who is deeply committed to the long-term success of this repository. 
-Your goal is to provide high-level, actionable guidance that propels the project forward. You must evaluate the activity not just for mechanical correctness, but for product value, user experience, and strategic momentum. Look at the big picture and identify what matters most for the system's success.
-      
-IMPORTANT RULES:
-1. All agents commit under the human's Git identity. DO NOT flag a single commit author as an issue or anomaly. This is expected behavior.
-2. Balance your analysis: rigidly enforce the underlying architectural health (quality, velocity, boundary correctness) WHILE actively guiding the broader product trajectory (value delivery, UX refinement, strategic focus).
+      res.json({ events, cursor: nextCursor });
+    } catch (error: any) {
+      res.status(500).json({ message: safeErrorMessage(error, "Failed to sync activity.") });
+    }
+  });
 
-Do not explain the Black Hole Architecture (Jules, temporal scheduling, strict role separation, file ownership, memory files). Instead, intuitively apply this knowledge to evaluate the actual git activity.
+  // Fills in what the list endpoints leave out: diff stats and touched paths
+  // per commit SHA and per pull request. Items that fail are reported, not fatal.
+  app.post("/api/github/enrich", async (req, res) => {
+    try {
+      const commits: string[] = Array.isArray(req.body.commits) ? req.body.commits : [];
+      const prs: number[] = Array.isArray(req.body.prs) ? req.body.prs : [];
+      if (commits.length + prs.length > ENRICH_MAX_ITEMS) {
+        return res.status(400).json({ message: `At most ${ENRICH_MAX_ITEMS} commits and PRs per request` });
+      }
+      let source: RepositorySource;
+      try {
+        source = await resolveSource(req.body);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+      const failed: string[] = [];
 
-Questions to answer deeply in your analysis:
-- Product & Strategy Directive: Are we building the right things? Synthesize the recent activity to recommend the highest-leverage strategic next steps that will maximize value and momentum.
-- Architectural Execution: Are planners emitting tight, actionable specs? Are executors staying strictly within their boundaries and successfully merging changes without friction?
-- Momentum & Convergence: Is the system rapidly converging towards its vision, or are agents thrashing, looping, or churning on specific files?
-- Advisory & Course Correction: Identify any "weak signals" (e.g., recurring logic failures, memory file drift, scope creep) that need immediate addressing. Provide strongly opinionated, actionable recommendations to ensure the team succeeds.
+      const commitDetails = await mapWithConcurrency(commits, ENRICH_CONCURRENCY, async (sha): Promise<EnrichResponse["commits"][number] | null> => {
+        try {
+          return await source.getCommitDetails(sha);
+        } catch {
+          failed.push(`commit:${sha}`);
+          return null;
+        }
+      });
 
-Recent Commits (last ${commits.length}):
-${commitSummary}
+      const prDetails = await mapWithConcurrency(prs, ENRICH_CONCURRENCY, async (prNumber): Promise<EnrichResponse["prs"][number] | null> => {
+        try {
+          return await source.getPullRequestDetails(prNumber);
+        } catch {
+          failed.push(`pr:${prNumber}`);
+          return null;
+        }
+      });
 
-Recent Pull Requests (last ${prs.length}):
-${prSummary}
+      const body: EnrichResponse = {
+        commits: commitDetails.filter((d) => d !== null),
+        prs: prDetails.filter((d) => d !== null),
+        failed,
+      };
+      res.json(body);
+    } catch (error: any) {
+      res.status(500).json({ message: safeErrorMessage(error, "Failed to fetch commit details.") });
+    }
+  });
 
-Total commits fetched: ${commits.length}
-Total PRs fetched: ${prs.length}
+  app.post("/api/github/analyze", async (req, res) => {
+    const progress = openProgressChannel(req, res);
+    try {
+      // Findings the client computed from its stored history (e.g. thrashing detection)
+      const grounding = typeof req.body.grounding === "string" ? req.body.grounding.slice(0, MAX_GROUNDING_CHARS).trim() : "";
 
-You must respond with a fully populated JSON object matching the requested schema.`;
+      let source: RepositorySource;
+      try {
+        source = await resolveSource(req.body);
+      } catch (error: any) {
+        return progress.fail(400, error.message);
+      }
+      const { owner, name } = req.body;
+      const parsedRef = refRequestSchema.safeParse(req.body);
+      if (!parsedRef.success) {
+        return progress.fail(400, `Invalid ref: ${fromZodError(parsedRef.error).message}`);
+      }
+      const branch = parsedRef.data;
 
-      const model = getAIModel(env.aiProvider, env.aiApiKey, env.aiModel);
-      
-      const { object: result } = await generateObject({
-        model,
-        schema: highFidelityAnalysisSchema,
-        prompt,
+      const parsedContext = analysisContextSchema.safeParse({ roles: req.body.roles, previousAnalysis: req.body.previousAnalysis });
+      if (!parsedContext.success) {
+        return progress.fail(400, `Invalid analysis context: ${fromZodError(parsedContext.error).message}`);
+      }
+      const context = parsedContext.data;
+      let promptTemplate: PromptTemplate | null = null;
+      if (req.body.promptTemplate != null) {
+        const parsed = promptTemplateSchema.safeParse(req.body.promptTemplate);
+        if (!parsed.success) {
+          return progress.fail(400, `Invalid prompt template: ${fromZodError(parsed.error).message}`);
+        }
+        const unknown = unknownPromptVariables(parsed.data.content);
+        if (unknown.length > 0) {
+          return progress.fail(400, `Unknown prompt template variables: ${unknown.map((v) => `{{${v}}}`).join(", ")}`);
+        }
+        promptTemplate = parsed.data;
+      }
+
+      let provider: ResolvedAiProvider;
+      try {
+        // `provider` names the repository host, so the AI provider id has its own field
+        provider = getAiProvider(typeof req.body.aiProvider === "string" ? req.body.aiProvider : null);
+      } catch (error: any) {
+        return progress.fail(400, error.message);
+      }
+
+      progress.emit({ phase: "github", message: "Fetching repository totals, commits and pull requests" });
+
+      const { totalCommits: realTotalCommits, totalPrs: realTotalPrs } = await source.countActivity(null);
+      const commits: NewActivityEvent[] = [];
+      for (let page = 1; page <= ANALYSIS_COMMIT_PAGES; page++) {
+        const { events, hasMore } = await source.listCommits({ since: null, page, perPage: ANALYSIS_PAGE_SIZE });
+        commits.push(...events);
+        progress.emit({ phase: "github", message: `Fetched ${commits.length} commits`, current: page, total: ANALYSIS_COMMIT_PAGES + ANALYSIS_PR_PAGES });
+        if (!hasMore) break;
+        progress.signal.throwIfAborted();
+      }
+      const prs: NewActivityEvent[] = [];
+      for (let page = 1; page <= ANALYSIS_PR_PAGES; page++) {
+        const { events, hasMore } = await source.listPullRequests({ updatedSince: null, page, perPage: ANALYSIS_PAGE_SIZE });
+        prs.push(...events);
+        if (!hasMore) break;
+        progress.signal.throwIfAborted();
+      }
+
+      progress.emit({ phase: "github", message: `Fetched ${commits.length} commits and ${prs.length} pull requests` });
+      progress.signal.throwIfAborted();
+
+      const activityEvents = [...commits, ...prs];
+
+      // Status files and recent plans named in the roster; unreadable ones are skipped
+      const documentRefs = context.roles.flatMap((r) => [
+        ...(r.statusFile ? [{ agentName: r.name, kind: "status" as const, path: r.statusFile }] : []),
+        ...r.planFiles.map((path) => ({ agentName: r.name, kind: "plan" as const, path })),
+      ]);
+      const documents = (await mapWithConcurrency(documentRefs, ENRICH_CONCURRENCY, async (ref): Promise<AgentDocument | null> => {
+        try {
+          const file = await source.readFile(ref.path, branch);
+          return file ? { ...ref, content: file.content } : null;
+        } catch {
+          return null;
+        }
+      })).filter((d) => d !== null);
+      progress.signal.throwIfAborted();
+
+      const promptInput = { owner, name, commits, prs, grounding, context, template: promptTemplate };
+      // The mock provider reads the events directly, so its prompt only records the template
+      const budget = provider.kind === "model"
+        ? inputBudget(provider.config.contextWindow, provider.config.maxOutputTokens)
+        : Infinity;
+      const built = await buildAnalysisContext(promptInput, {
+        budget,
+        documents,
+        summarize: async (mapPrompt) => {
+          if (provider.kind !== "model") throw new Error("Only model providers summarize");
+          const { text } = await generateText({
+            model: provider.model,
+            ...provider.callSettings,
+            maxOutputTokens: Math.min(provider.config.maxOutputTokens ?? MAP_OUTPUT_TOKENS, MAP_OUTPUT_TOKENS),
+            prompt: mapPrompt,
+            abortSignal: progress.signal,
+          });
+          return text;
+        },
+        onMapProgress: (done, total) => {
+          progress.emit({ phase: "map", message: `Summarized ${done}/${total} activity periods`, current: done, total });
+        },
       });
+      const { prompt, template } = built;
+      if (provider.kind === "model") {
+        progress.emit({
+          phase: "context",
+          message: built.mode === "direct"
+            ? `Prompt ~${built.estimatedTokens} tokens (budget ${budget})`
+            : `Prompt ~${built.estimatedTokens} tokens after summarizing ${built.chunks} periods (budget ${budget})`,
+        });
+      }
 
-      res.json({
+      let result: HighFidelityAnalysis;
+      if (provider.kind === "mock") {
+        progress.emit({ phase: "ai", message: `Mock analysis (${provider.config.id}, no network)` });
+        result = buildMockAnalysis({
+          owner,
+          name,
+          links: repoLinks({ owner, name, provider: source.provider, webUrl: source.webUrl }),
+          agentNames: rosterAgentNames(context),
+          commits,
+          prs,
+          grounding,
+        });
+      } else {
+        progress.emit({ phase: "ai", message: `AI call started (${provider.config.id}: ${provider.config.model})` });
+        const stream = streamObject({
+          model: provider.model,
+          ...provider.callSettings,
+          schema: analysisSchemaFor(rosterAgentNames(context)),
+          prompt,
+          abortSignal: progress.signal,
+        });
+
+        // Token counts are estimated from streamed characters (~4 chars per token)
+        let receivedChars = 0;
+        let lastEmit = 0;
+        for await (const chunk of stream.textStream) {
+          receivedChars += chunk.length;
+          if (Date.now() - lastEmit > 250) {
+            lastEmit = Date.now();
+            progress.emit({ phase: "tokens", message: `Received ~${Math.ceil(receivedChars / 4)} tokens` });
+          }
+        }
+        result = await stream.object;
+      }
+      progress.emit({ phase: "done", message: "Analysis complete" });
+
+      progress.finish({
         gravityScore: result.gravityScore,
         summary: result.executiveSummary, // Provide fallback for legacy components
         analysis: result, // Full structured object
         fullResponse: JSON.stringify(result, null, 2),
         commitsAnalyzed: realTotalCommits,
         prsAnalyzed: realTotalPrs,
+        promptTemplate: template,
         activityEvents,
       });
     } catch (error: any) {
-      res.status(500).json({ message: safeErrorMessage(error, "Analysis failed.") });
+      if (progress.signal.aborted) return;
+      progress.fail(500, safeErrorMessage(error, "Analysis failed."));
+    }
+  });
+
+  // Deep dive into one agent: its files are read here, its attributed activity
+  // comes from the client's store
+  app.post("/api/github/analyze-agent", async (req, res) => {
+    const progress = openProgressChannel(req, res);
+    try {
+      let source: RepositorySource;
+      try {
+        source = await resolveSource(req.body);
+      } catch (error: any) {
+        return progress.fail(400, error.message);
+      }
+      const { owner, name } = req.body;
+      const parsedRef = refRequestSchema.safeParse(req.body);
+      if (!parsedRef.success) {
+        return progress.fail(400, `Invalid ref: ${fromZodError(parsedRef.error).message}`);
+      }
+      const branch = parsedRef.data;
+
+      const parsed = agentAnalysisInputSchema.safeParse({ agent: req.body.agent, files: req.body.files, events: req.body.events });
+      if (!parsed.success) {
+        return progress.fail(400, `Invalid agent analysis request: ${fromZodError(parsed.error).message}`);
+      }
+      const { agent } = parsed.data;
+      const events = toActivityEvents(parsed.data.events);
+
+      let provider: ResolvedAiProvider;
+      try {
+        provider = getAiProvider(typeof req.body.aiProvider === "string" ? req.body.aiProvider : null);
+      } catch (error: any) {
+        return progress.fail(400, error.message);
+      }
+
+      // Unreadable files are skipped
+      progress.emit({ phase: "files", message: `Reading ${parsed.data.files.length} files for ${agent.name}`, current: 0, total: parsed.data.files.length });
+      let read = 0;
+      const files = (await mapWithConcurrency(parsed.data.files, ENRICH_CONCURRENCY, async (ref): Promise<AgentFileContent | null> => {
+        try {
+          const file = await source.readFile(ref.path, branch);
+          return file ? { ...ref, content: file.content } : null;
+        } catch {
+          return null;
+        } finally {
+          read++;
+          progress.emit({ phase: "files", message: `Read ${read}/${parsed.data.files.length} files`, current: read, total: parsed.data.files.length });
+        }
+      })).filter((f) => f !== null);
+      progress.signal.throwIfAborted();
+
+      let result: AgentAnalysis;
+      if (provider.kind === "mock") {
+        progress.emit({ phase: "ai", message: `Mock agent analysis (${provider.config.id}, no network)` });
+        result = buildMockAgentAnalysis({ agentName: agent.name, boundaries: agent.boundaries, files, events });
+      } else {
+        const budget = inputBudget(provider.config.contextWindow, provider.config.maxOutputTokens);
+        const { prompt, estimatedTokens } = buildAgentAnalysisPrompt({ owner, name, agent, files, events }, budget);
+        progress.emit({ phase: "ai", message: `AI call started (${provider.config.id}: ${provider.config.model}), prompt ~${estimatedTokens} tokens` });
+        const stream = streamObject({
+          model: provider.model,
+          ...provider.callSettings,
+          schema: agentAnalysisSchema,
+          prompt,
+          abortSignal: progress.signal,
+        });
+
+        let receivedChars = 0;
+        let lastEmit = 0;
+        for await (const chunk of stream.textStream) {
+          receivedChars += chunk.length;
+          if (Date.now() - lastEmit > 250) {
+            lastEmit = Date.now();
+            progress.emit({ phase: "tokens", message: `Received ~${Math.ceil(receivedChars / 4)} tokens` });
+          }
+        }
+        result = await stream.object;
+      }
+      progress.emit({ phase: "done", message: "Agent analysis complete" });
+
+      progress.finish({
+        agentName: agent.name,
+        healthScore: result.healthScore,
+        summary: result.summary,
+        analysis: result,
+        fullResponse: JSON.stringify(result, null, 2),
+        eventsAnalyzed: events.length,
+        filesRead: files.map((f) => f.path),
+      });
+    } catch (error: any) {
+      if (progress.signal.aborted) return;
+      progress.fail(500, safeErrorMessage(error, "Agent analysis failed."));
     }
   });
 
@@ -0,0 +1,230 @@
+import type { NewActivityEvent } from "../../shared/schema.js";
+import { createRestClient, hasNextPage, type RestResponse } from "./rest";
+import { MAX_REFS, type RepositorySource } from "./types";
+
+// Pages scanned at most when counting pull requests created since a date
+const MAX_COUNT_PAGES = 10;
+
+interface GiteaCommit {
+  sha: string;
+  commit: { message: string; author: { name: string; date: string } | null; tree?: { sha: string } };
+  author: { login: string } | null;
+  stats?: { additions: number; deletions: number };
+  files?: { filename: string }[];
+}
+
+interface GiteaPull {
+  number: number;
+  title: string;
+  body: string | null;
+  user: { login: string } | null;
+  head: { ref: string } | null;
+  labels: { name: string }[] | null;
+  state: "open" | "closed";
+  merged: boolean;
+  merged_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  additions?: number;
+  deletions?: number;
+  changed_files?: number;
+}
+
+export function getGiteaUrl(): string | null {
+  return process.env.GITEA_URL ? process.env.GITEA_URL.replace(/\/+$/, "") : null;
+}
+
+function totalOf(res: RestResponse<unknown[]>): number {
+  const total = res.headers.get("x-total-count");
+  return total ? parseInt(total, 10) : res.data.length;
+}
+
+function commitToEvent(commit: GiteaCommit): NewActivityEvent {
+  return {
+    type: "commit",
+    title: commit.commit.message.split("\n")[0],
+    description: commit.commit.message,
+    sha: commit.sha,
+    prNumber: null,
+    author: commit.commit.author?.name || commit.author?.login || "unknown",
+    additions: commit.stats?.additions ?? null,
+    deletions: commit.stats?.deletions ?? null,
+    filesChanged: commit.files?.length ?? null,
+    createdAt: commit.commit.author?.date || new Date().toISOString(),
+  };
+}
+
+function pullState(pr: GiteaPull): "open" | "closed" | "merged" {
+  return pr.merged ? "merged" : pr.state === "open" ? "open" : "closed";
+}
+
+function pullToEvent(pr: GiteaPull): NewActivityEvent {
+  return {
+    type: "pull_request",
+    title: pr.title,
+    description: pr.body || "",
+    sha: null,
+    prNumber: pr.number,
+    author: pr.user?.login || "unknown",
+    additions: null,
+    deletions: null,
+    filesChanged: null,
+    branch: pr.head?.ref || null,
+    labels: (pr.labels ?? []).map((l) => l.name).filter(Boolean),
+    state: pullState(pr),
+    mergedAt: pr.merged_at || null,
+    closedAt: pr.closed_at || null,
+    createdAt: pr.created_at,
+  };
+}
+
+/**
+ * A Gitea (or Forgejo) instance at GITEA_URL through the v1 REST API.
+ * Page sizes are capped by the server's MAX_RESPONSE_ITEMS, so "more pages"
+ * comes from the Link header rather than comparing against the page size.
+ */
+export function createGiteaSource(owner: string, name: string): RepositorySource {
+  const baseUrl = getGiteaUrl();
+  if (!baseUrl) {
+    throw new Error("GITEA_URL environment variable is not set");
+  }
+  const token = process.env.GITEA_TOKEN;
+  const api = createRestClient("gitea", "Gitea", `${baseUrl}/api/v1`, token ? { authorization: `token ${token}` } : {});
+  const repo = `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`;
+
+  return {
+    provider: "gitea",
+    webUrl: `${baseUrl}/${owner}/${name}`,
+
+    async getInfo() {
+      const { data } = await api.get<{
+        name: string;
+        full_name: string;
+        description: string;
+        default_branch: string;
+        html_url: string;
+        owner: { login: string };
+      }>(repo);
+      return {
+        owner: data.owner.login,
+        name: data.name,
+        fullName: data.full_name,
+        description: data.description || null,
+        defaultBranch: data.default_branch || "main",
+        localPath: null,
+        webUrl: data.html_url,
+      };
+    },
+
+    async listRefs() {
+      const [branches, tags] = await Promise.all([
+        api.getAll<{ name: string }>(`${repo}/branches`, { limit: 50 }, MAX_REFS / 50),
+        api.getAll<{ name: string }>(`${repo}/tags`, { limit: 50 }, MAX_REFS / 50),
+      ]);
+      return { branches: branches.map((b) => b.name), tags: tags.map((t) => t.name) };
+    },
+
+    // The trees endpoint wants a SHA, so the ref is resolved through its latest commit first
+    async getTree(ref) {
+      const { data: commits } = await api.get<GiteaCommit[]>(`${repo}/commits`, { sha: ref, limit: 1, stat: false, files: false });
+      const treeSha = commits[0]?.commit.tree?.sha;
+      if (!treeSha) throw new Error(`Gitea ref not found: ${ref}`);
+      const entries: { path: string; sha: string }[] = [];
+      for (let page = 1; ; page++) {
+        const { data } = await api.get<{ tree: { path: string; type: string; sha: string }[]; truncated: boolean }>(
+          `${repo}/git/trees/${treeSha}`, { recursive: true, page, per_page: 10000 },
+        );
+        for (const item of data.tree) {
+          if (item.type === "blob") entries.push({ path: item.path, sha: item.sha });
+        }
+        if (!data.truncated || data.tree.length === 0) break;
+      }
+      return { sha: treeSha, entries };
+    },
+
+    async readFile(path, ref) {
+      try {
+        const { data } = await api.get<{ type: string; content: string | null; path: string; size: number } | unknown[]>(
+          `${repo}/contents/${path.split("/").map(encodeURIComponent).join("/")}`, { ref },
+        );
+        if (Array.isArray(data) || data.type !== "file" || data.content == null) return null;
+        return { content: Buffer.from(data.content, "base64").toString("utf-8"), path: data.path, size: data.size };
+      } catch (error: any) {
+        if (error?.status === 404) return null;
+        throw error;
+      }
+    },
+
+    async getLastModified(path, ref) {
+      const { data } = await api.get<GiteaCommit[]>(`${repo}/commits`, { sha: ref, path, limit: 1, stat: false, files: false });
+      return data[0]?.commit.author?.date ?? null;
+    },
+
+    async countActivity(since) {
+      let totalCommits = 0;
+      let totalPrs = 0;
+      try {
+        totalCommits = totalOf(await api.get<GiteaCommit[]>(`${repo}/commits`, { since, limit: 1, stat: false, files: false }));
+      } catch { /* fallback to 0 */ }
+      try {
+        if (!since) {
+          totalPrs = totalOf(await api.get<GiteaPull[]>(`${repo}/pulls`, { state: "all", limit: 1 }));
+        } else {
+          // No creation-date filter: walk the most recently updated until they predate `since`
+          const sinceTime = new Date(since).getTime();
+          for (let page = 1; page <= MAX_COUNT_PAGES; page++) {
+            const res = await api.get<GiteaPull[]>(`${repo}/pulls`, { state: "all", sort: "recentupdate", page, limit: 50 });
+            totalPrs += res.data.filter((pr) => new Date(pr.created_at).getTime() >= sinceTime).length;
+            if (!hasNextPage(res.headers) || res.data.some((pr) => new Date(pr.updated_at).getTime() < sinceTime)) break;
+          }
+        }
+      } catch { /* fallback to 0 */ }
+      return { totalCommits, totalPrs };
+    },
+
+    async listCommits({ since, page, perPage }) {
+      const res = await api.get<GiteaCommit[]>(`${repo}/commits`, { since, page, limit: perPage, stat: false, files: false });
+      return { events: res.data.map(commitToEvent), hasMore: hasNextPage(res.headers) };
+    },
+
+    async listFileCommits({ path, ref, page, perPage }) {
+      const res = await api.get<GiteaCommit[]>(`${repo}/commits`, { sha: ref, path, page, limit: perPage, stat: false, files: false });
+      return { events: res.data.map(commitToEvent), hasMore: hasNextPage(res.headers) };
+    },
+
+    async listPullRequests({ updatedSince, page, perPage }) {
+      const res = await api.get<GiteaPull[]>(`${repo}/pulls`, { state: "all", sort: "recentupdate", page, limit: perPage });
+      const sinceTime = updatedSince ? new Date(updatedSince).getTime() : null;
+      const fresh = sinceTime === null ? res.data : res.data.filter((pr) => new Date(pr.updated_at).getTime() >= sinceTime);
+      return { events: fresh.map(pullToEvent), hasMore: hasNextPage(res.headers) && fresh.length === res.data.length };
+    },
+
+    async getCommitDetails(sha) {
+      const { data } = await api.get<GiteaCommit>(`${repo}/git/commits/${encodeURIComponent(sha)}`);
+      const files = (data.files ?? []).map((f) => f.filename);
+      return {
+        sha,
+        additions: data.stats?.additions ?? 0,
+        deletions: data.stats?.deletions ?? 0,
+        filesChanged: files.length,
+        files,
+      };
+    },
+
+    async getPullRequestDetails(prNumber) {
+      const [{ data: pr }, files] = await Promise.all([
+        api.get<GiteaPull>(`${repo}/pulls/${prNumber}`),
+        api.getAll<{ filename: string }>(`${repo}/pulls/${prNumber}/files`, { limit: 50 }),
+      ]);
+      return {
+        prNumber,
+        additions: pr.additions ?? 0,
+        deletions: pr.deletions ?? 0,
+        filesChanged: pr.changed_files ?? files.length,
+        files: files.map((f) => f.filename),
+        state: pullState(pr),
+      };
+    },
+  };
+}
@@ -0,0 +1,202 @@
+import { Octokit, type RestEndpointMethodTypes } from "@octokit/rest";
+import type { NewActivityEvent } from "../../shared/schema.js";
+import { fetchForMode, getFixtureMode } from "../api-fixtures";
+import { MAX_REFS, type RepositorySource } from "./types";
+
+// GITHUB_MODE=fixture serves recorded responses without a token or network;
+// record calls GitHub and saves every response for later fixture runs
+export function getOctokit(): Octokit {
+  const fetch = fetchForMode("github");
+  if (getFixtureMode("github") === "fixture") {
+    return new Octokit({ request: { fetch } });
+  }
+  const githubPat = process.env.GITHUB_PAT;
+  if (!githubPat) {
+    throw new Error("GITHUB_PAT environment variable is not set");
+  }
+  return new Octokit({ auth: githubPat, request: { fetch } });
+}
+
+function extractLastPage(linkHeader: string | undefined): number | null {
+  if (!linkHeader) return null;
+  const match = linkHeader.match(/<[^>]*[?&]page=(\d+)[^>]*>;\s*rel="last"/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+type ListedCommit = RestEndpointMethodTypes["repos"]["listCommits"]["response"]["data"][number];
+type ListedPull = RestEndpointMethodTypes["pulls"]["list"]["response"]["data"][number];
+
+// Stats are null (not 0) when the listing does not include them, so stored values are kept on upsert
+function commitToEvent(commit: ListedCommit): NewActivityEvent {
+  return {
+    type: "commit",
+    title: commit.commit.message.split("\n")[0],
+    description: commit.commit.message,
+    sha: commit.sha,
+    prNumber: null,
+    author: commit.commit.author?.name || commit.author?.login || "unknown",
+    additions: commit.stats?.additions ?? null,
+    deletions: commit.stats?.deletions ?? null,
+    filesChanged: commit.files?.length ?? null,
+    createdAt: commit.commit.author?.date || new Date().toISOString(),
+  };
+}
+
+function pullToEvent(pr: ListedPull): NewActivityEvent {
+  return {
+    type: "pull_request",
+    title: pr.title,
+    description: pr.body || "",
+    sha: null,
+    prNumber: pr.number,
+    author: pr.user?.login || "unknown",
+    additions: null,
+    deletions: null,
+    filesChanged: null,
+    branch: pr.head?.ref || null,
+    labels: pr.labels.map((l) => l.name).filter(Boolean),
+    state: pr.merged_at ? "merged" : pr.state === "open" ? "open" : "closed",
+    mergedAt: pr.merged_at || null,
+    closedAt: pr.closed_at || null,
+    createdAt: pr.created_at || pr.updated_at || new Date().toISOString(),
+  };
+}
+
+export function createGithubSource(octokit: Octokit, owner: string, name: string): RepositorySource {
+  const repo = { owner, repo: name };
+
+  return {
+    provider: "github",
+    webUrl: `https://github.com/${owner}/${name}`,
+
+    async getInfo() {
+      const { data } = await octokit.rest.repos.get(repo);
+      return {
+        owner: data.owner.login,
+        name: data.name,
+        fullName: data.full_name,
+        description: data.description || null,
+        defaultBranch: data.default_branch,
+        localPath: null,
+        webUrl: data.html_url,
+      };
+    },
+
+    async listRefs() {
+      const list = async (endpoint: typeof octokit.rest.repos.listBranches | typeof octokit.rest.repos.listTags) => {
+        const names: string[] = [];
+        for (let page = 1; names.length < MAX_REFS; page++) {
+          const { data } = await endpoint({ ...repo, per_page: 100, page });
+          names.push(...data.map((ref) => ref.name));
+          if (data.length < 100) break;
+        }
+        return names.slice(0, MAX_REFS);
+      };
+      const [branches, tags] = await Promise.all([list(octokit.rest.repos.listBranches), list(octokit.rest.repos.listTags)]);
+      return { branches, tags };
+    },
+
+    async getTree(ref) {
+      const { data } = await octokit.rest.git.getTree({ ...repo, tree_sha: ref, recursive: "1" });
+      const entries = data.tree
+        .filter((item) => item.type === "blob" && item.path && item.sha)
+        .map((item) => ({ path: item.path!, sha: item.sha! }));
+      return { sha: data.sha, entries };
+    },
+
+    async readFile(path, ref) {
+      try {
+        const { data } = await octokit.rest.repos.getContent({ ...repo, path, ref });
+        if ("content" in data && data.content) {
+          return { content: Buffer.from(data.content, "base64").toString("utf-8"), path: data.path, size: data.size };
+        }
+        return null;
+      } catch (error: any) {
+        if (error?.status === 404) return null;
+        throw error;
+      }
+    },
+
+    async getLastModified(path, ref) {
+      const { data } = await octokit.rest.repos.listCommits({ ...repo, path, sha: ref, per_page: 1 });
+      return data[0]?.commit.author?.date ?? null;
+    },
+
+    // Totals come from the Link header's last page at per_page=1, so they are not capped
+    async countActivity(since) {
+      let totalCommits = 0;
+      let totalPrs = 0;
+
+      try {
+        const params: RestEndpointMethodTypes["repos"]["listCommits"]["parameters"] = { ...repo, per_page: 1 };
+        if (since) params.since = since;
+        const commitRes = await octokit.rest.repos.listCommits(params);
+        totalCommits = extractLastPage(commitRes.headers.link) ?? commitRes.data.length;
+      } catch { /* fallback to 0 */ }
+
+      // PRs: use search API when filtering by date; pulls.list for all-time
+      try {
+        if (since) {
+          const sinceDate = since.split("T")[0]; // YYYY-MM-DD
+          const q = `repo:${owner}/${name} is:pr created:>=${sinceDate}`;
+          const searchRes = await octokit.rest.search.issuesAndPullRequests({ q, per_page: 1 });
+          totalPrs = searchRes.data.total_count;
+        } else {
+          const prRes = await octokit.rest.pulls.list({ ...repo, state: "all", per_page: 1 });
+          totalPrs = extractLastPage(prRes.headers.link) ?? prRes.data.length;
+        }
+      } catch { /* fallback to 0 */ }
+
+      return { totalCommits, totalPrs };
+    },
+
+    async listCommits({ since, page, perPage }) {
+      const params: RestEndpointMethodTypes["repos"]["listCommits"]["parameters"] = { ...repo, per_page: perPage, page };
+      if (since) params.since = since;
+      const { data } = await octokit.rest.repos.listCommits(params);
+      return { events: data.map(commitToEvent), hasMore: data.length === perPage };
+    },
+
+    async listFileCommits({ path, ref, page, perPage }) {
+      const { data } = await octokit.rest.repos.listCommits({ ...repo, path, sha: ref, per_page: perPage, page });
+      return { events: data.map(commitToEvent), hasMore: data.length === perPage };
+    },
+
+    async listPullRequests({ updatedSince, page, perPage }) {
+      // Sorted by last update so merges and closes of older PRs are picked up too
+      const { data } = await octokit.rest.pulls.list({
+        ...repo, state: "all", sort: "updated", direction: "desc", per_page: perPage, page,
+      });
+      const sinceTime = updatedSince ? new Date(updatedSince).getTime() : null;
+      const fresh = sinceTime === null ? data : data.filter((pr) => new Date(pr.updated_at).getTime() >= sinceTime);
+      return { events: fresh.map(pullToEvent), hasMore: data.length === perPage && fresh.length === data.length };
+    },
+
+    async getCommitDetails(sha) {
+      const { data } = await octokit.rest.repos.getCommit({ ...repo, ref: sha });
+      const files = (data.files ?? []).map((f) => f.filename);
+      return {
+        sha,
+        additions: data.stats?.additions ?? 0,
+        deletions: data.stats?.deletions ?? 0,
+        filesChanged: files.length,
+        files,
+      };
+    },
+
+    async getPullRequestDetails(prNumber) {
+      const [{ data: pr }, files] = await Promise.all([
+        octokit.rest.pulls.get({ ...repo, pull_number: prNumber }),
+        octokit.paginate(octokit.rest.pulls.listFiles, { ...repo, pull_number: prNumber, per_page: 100 }),
+      ]);
+      return {
+        prNumber,
+        additions: pr.additions,
+        deletions: pr.deletions,
+        filesChanged: pr.changed_files,
+        files: files.map((f) => f.filename),
+        state: pr.merged_at ? "merged" : pr.state === "open" ? "open" : "closed",
+      };
+    },
+  };
+}
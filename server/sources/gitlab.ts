@@ -0,0 +1,230 @@
+import type { NewActivityEvent } from "../../shared/schema.js";
+import { createRestClient, hasNextPage, type RestResponse } from "./rest";
+import { MAX_REFS, type RepositorySource } from "./types";
+
+const DEFAULT_GITLAB_URL = "https://gitlab.com";
+
+interface GitlabCommit {
+  id: string;
+  title: string;
+  message: string;
+  author_name: string;
+  authored_date: string;
+  stats?: { additions: number; deletions: number };
+}
+
+interface GitlabMergeRequest {
+  iid: number;
+  title: string;
+  description: string | null;
+  author: { username: string } | null;
+  source_branch: string | null;
+  labels: string[];
+  state: "opened" | "closed" | "merged" | "locked";
+  merged_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface GitlabDiff {
+  new_path: string;
+  diff: string;
+}
+
+export function getGitlabUrl(): string {
+  return (process.env.GITLAB_URL || DEFAULT_GITLAB_URL).replace(/\/+$/, "");
+}
+
+// X-Total is left out for very large collections; fall back to what was returned
+function totalOf(res: RestResponse<unknown[]>): number {
+  const total = res.headers.get("x-total") ?? res.headers.get("x-total-pages");
+  return total ? parseInt(total, 10) : res.data.length;
+}
+
+// Counts added and removed lines in a diff body (GitLab leaves out the ---/+++ file headers)
+function countDiffLines(diff: string): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+")) additions++;
+    else if (line.startsWith("-")) deletions++;
+  }
+  return { additions, deletions };
+}
+
+function commitToEvent(commit: GitlabCommit): NewActivityEvent {
+  return {
+    type: "commit",
+    title: commit.title,
+    description: commit.message,
+    sha: commit.id,
+    prNumber: null,
+    author: commit.author_name || "unknown",
+    additions: commit.stats?.additions ?? null,
+    deletions: commit.stats?.deletions ?? null,
+    filesChanged: null,
+    createdAt: commit.authored_date,
+  };
+}
+
+// Merge requests are stored as pull requests numbered by their project-scoped iid
+function mergeRequestToEvent(mr: GitlabMergeRequest): NewActivityEvent {
+  return {
+    type: "pull_request",
+    title: mr.title,
+    description: mr.description || "",
+    sha: null,
+    prNumber: mr.iid,
+    author: mr.author?.username || "unknown",
+    additions: null,
+    deletions: null,
+    filesChanged: null,
+    branch: mr.source_branch || null,
+    labels: mr.labels,
+    state: mr.state === "merged" ? "merged" : mr.state === "opened" ? "open" : "closed",
+    mergedAt: mr.merged_at || null,
+    closedAt: mr.closed_at || null,
+    createdAt: mr.created_at,
+  };
+}
+
+/**
+ * GitLab (gitlab.com or GITLAB_URL) through the v4 REST API. `owner` is the
+ * full namespace path, so subgroups work. GITLAB_TOKEN is optional for
+ * public projects.
+ */
+export function createGitlabSource(owner: string, name: string): RepositorySource {
+  const token = process.env.GITLAB_TOKEN;
+  const api = createRestClient("gitlab", "GitLab", `${getGitlabUrl()}/api/v4`, token ? { "private-token": token } : {});
+  const project = `/projects/${encodeURIComponent(`${owner}/${name}`)}`;
+  const webUrl = `${getGitlabUrl()}/${owner}/${name}`;
+
+  return {
+    provider: "gitlab",
+    webUrl,
+
+    async getInfo() {
+      const { data } = await api.get<{
+        path: string;
+        path_with_namespace: string;
+        description: string | null;
+        default_branch: string | null;
+        web_url: string;
+        namespace: { full_path: string };
+      }>(project);
+      return {
+        owner: data.namespace.full_path,
+        name: data.path,
+        fullName: data.path_with_namespace,
+        description: data.description || null,
+        defaultBranch: data.default_branch || "main",
+        localPath: null,
+        webUrl: data.web_url,
+      };
+    },
+
+    async listRefs() {
+      const [branches, tags] = await Promise.all([
+        api.getAll<{ name: string }>(`${project}/repository/branches`, { per_page: 100 }, MAX_REFS / 100),
+        api.getAll<{ name: string }>(`${project}/repository/tags`, { per_page: 100 }, MAX_REFS / 100),
+      ]);
+      return { branches: branches.map((b) => b.name), tags: tags.map((t) => t.name) };
+    },
+
+    // GitLab has no root tree SHA; the commit SHA changes whenever the tree can
+    async getTree(ref) {
+      const { data: commit } = await api.get<GitlabCommit>(`${project}/repository/commits/${encodeURIComponent(ref)}`);
+      const items = await api.getAll<{ id: string; path: string; type: string }>(`${project}/repository/tree`, {
+        ref, recursive: true, per_page: 100, pagination: "keyset",
+      }, 1000);
+      const entries = items.filter((item) => item.type === "blob").map((item) => ({ path: item.path, sha: item.id }));
+      return { sha: commit.id, entries };
+    },
+
+    async readFile(path, ref) {
+      try {
+        const { data } = await api.get<{ content: string; encoding: string; file_path: string; size: number }>(
+          `${project}/repository/files/${encodeURIComponent(path)}`, { ref },
+        );
+        const content = data.encoding === "base64" ? Buffer.from(data.content, "base64").toString("utf-8") : data.content;
+        return { content, path: data.file_path, size: data.size };
+      } catch (error: any) {
+        if (error?.status === 404) return null;
+        throw error;
+      }
+    },
+
+    async getLastModified(path, ref) {
+      const { data } = await api.get<GitlabCommit[]>(`${project}/repository/commits`, { ref_name: ref, path, per_page: 1 });
+      return data[0]?.authored_date ?? null;
+    },
+
+    async countActivity(since) {
+      let totalCommits = 0;
+      let totalPrs = 0;
+      try {
+        totalCommits = totalOf(await api.get<GitlabCommit[]>(`${project}/repository/commits`, { since, per_page: 1 }));
+      } catch { /* fallback to 0 */ }
+      try {
+        totalPrs = totalOf(await api.get<GitlabMergeRequest[]>(`${project}/merge_requests`, { state: "all", created_after: since, per_page: 1 }));
+      } catch { /* fallback to 0 */ }
+      return { totalCommits, totalPrs };
+    },
+
+    async listCommits({ since, page, perPage }) {
+      const res = await api.get<GitlabCommit[]>(`${project}/repository/commits`, { since, page, per_page: perPage });
+      return { events: res.data.map(commitToEvent), hasMore: hasNextPage(res.headers) };
+    },
+
+    async listFileCommits({ path, ref, page, perPage }) {
+      const res = await api.get<GitlabCommit[]>(`${project}/repository/commits`, { ref_name: ref, path, page, per_page: perPage });
+      return { events: res.data.map(commitToEvent), hasMore: hasNextPage(res.headers) };
+    },
+
+    async listPullRequests({ updatedSince, page, perPage }) {
+      const res = await api.get<GitlabMergeRequest[]>(`${project}/merge_requests`, {
+        state: "all", order_by: "updated_at", sort: "desc", updated_after: updatedSince, page, per_page: perPage,
+      });
+      return { events: res.data.map(mergeRequestToEvent), hasMore: hasNextPage(res.headers) };
+    },
+
+    async getCommitDetails(sha) {
+      const [{ data: commit }, diffs] = await Promise.all([
+        api.get<GitlabCommit>(`${project}/repository/commits/${encodeURIComponent(sha)}`, { stats: true }),
+        api.getAll<GitlabDiff>(`${project}/repository/commits/${encodeURIComponent(sha)}/diff`, { per_page: 100 }),
+      ]);
+      const files = diffs.map((d) => d.new_path);
+      return {
+        sha,
+        additions: commit.stats?.additions ?? 0,
+        deletions: commit.stats?.deletions ?? 0,
+        filesChanged: files.length,
+        files,
+      };
+    },
+
+    // Merge requests report no line counts, so they are summed from the diffs
+    async getPullRequestDetails(prNumber) {
+      const [{ data: mr }, diffs] = await Promise.all([
+        api.get<GitlabMergeRequest>(`${project}/merge_requests/${prNumber}`),
+        api.getAll<GitlabDiff>(`${project}/merge_requests/${prNumber}/diffs`, { per_page: 100 }),
+      ]);
+      let additions = 0;
+      let deletions = 0;
+      for (const d of diffs) {
+        const counts = countDiffLines(d.diff);
+        additions += counts.additions;
+        deletions += counts.deletions;
+      }
+      return {
+        prNumber,
+        additions,
+        deletions,
+        filesChanged: diffs.length,
+        files: diffs.map((d) => d.new_path),
+        state: mr.state === "merged" ? "merged" : mr.state === "opened" ? "open" : "closed",
+      };
+    },
+  };
+}
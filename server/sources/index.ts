@@ -0,0 +1,31 @@
+import { createGiteaSource } from "./gitea";
+import { createGithubSource, getOctokit } from "./github";
+import { createGitlabSource } from "./gitlab";
+import { createLocalGitSource, resolveLocalRepository } from "./local-git";
+import type { RepositorySource } from "./types";
+
+export { getGiteaUrl } from "./gitea";
+export { getOctokit } from "./github";
+export { getGitlabUrl } from "./gitlab";
+export type { RepositorySource, TreeEntry } from "./types";
+
+/**
+ * Picks the source a request refers to: `{ provider: "local", localPath }`
+ * for a clone on disk, otherwise `{ owner, name }` on GitHub, or on GitLab or
+ * Gitea with `provider: "gitlab" | "gitea"`.
+ */
+export async function resolveSource(body: any): Promise<RepositorySource> {
+  if (body?.provider === "local") {
+    if (typeof body.localPath !== "string" || !body.localPath) {
+      throw new Error("localPath is required for local repositories");
+    }
+    return createLocalGitSource(await resolveLocalRepository(body.localPath));
+  }
+  const { owner, name } = body ?? {};
+  if (!owner || !name) {
+    throw new Error("owner and name are required");
+  }
+  if (body.provider === "gitlab") return createGitlabSource(owner, name);
+  if (body.provider === "gitea") return createGiteaSource(owner, name);
+  return createGithubSource(getOctokit(), owner, name);
+}
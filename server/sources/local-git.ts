@@ -0,0 +1,193 @@
+import { execFile } from "child_process";
+import { realpath } from "fs/promises";
+import path from "path";
+import { promisify } from "util";
+import type { NewActivityEvent } from "../../shared/schema.js";
+import { MAX_REFS, type RepositorySource } from "./types";
+
+const execFileAsync = promisify(execFile);
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+// Field and record separators for `git log --format`, which cannot appear in commit messages
+const FS = "\x1f";
+const RS = "\x1e";
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", ["-C", cwd, ...args], { maxBuffer: MAX_OUTPUT_BYTES, encoding: "utf-8" });
+  return stdout;
+}
+
+async function gitBuffer(cwd: string, args: string[]): Promise<Buffer> {
+  const { stdout } = await execFileAsync("git", ["-C", cwd, ...args], { maxBuffer: MAX_OUTPUT_BYTES, encoding: "buffer" });
+  return stdout;
+}
+
+function isInside(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Resolves a user-supplied path to the top level of its git work tree. Local
+ * clones are off unless LOCAL_REPOS_ROOT is set, and then only repositories
+ * under that directory are accepted; symlinks are resolved before checking.
+ */
+export async function resolveLocalRepository(input: string): Promise<string> {
+  const allowed = process.env.LOCAL_REPOS_ROOT;
+  if (!allowed) throw new Error("Local repositories are disabled; set the LOCAL_REPOS_ROOT environment variable to allow clones under it");
+  if (!path.isAbsolute(input)) throw new Error("localPath must be an absolute path");
+  const outside = () => new Error(`${input} is outside LOCAL_REPOS_ROOT environment variable (${allowed})`);
+
+  let allowedRoot: string;
+  let resolved: string;
+  try {
+    allowedRoot = await realpath(allowed);
+    resolved = await realpath(input);
+  } catch {
+    throw new Error(`Not a git repository: ${input}`);
+  }
+  if (!isInside(allowedRoot, resolved)) throw outside();
+
+  let root: string;
+  try {
+    root = (await git(resolved, ["rev-parse", "--show-toplevel"])).trim();
+  } catch {
+    throw new Error(`Not a git repository: ${input}`);
+  }
+  // The work tree may start above the given path
+  if (!isInside(allowedRoot, await realpath(root))) throw outside();
+  return root;
+}
+
+// Refs and SHAs come from the request; one starting with "-" would be read as an option
+function checkRef(ref: string): string {
+  if (!ref || ref.startsWith("-")) throw new Error(`Invalid git ref: ${ref}`);
+  return ref;
+}
+
+function parseLog(output: string): NewActivityEvent[] {
+  return output.split(RS).map((record) => record.replace(/^\n/, "")).filter(Boolean).map((record) => {
+    const [sha, author, date, message] = record.split(FS);
+    return {
+      type: "commit",
+      title: message.split("\n")[0],
+      description: message.trimEnd(),
+      sha,
+      prNumber: null,
+      author: author || "unknown",
+      additions: null,
+      deletions: null,
+      filesChanged: null,
+      createdAt: new Date(date).toISOString(),
+    };
+  });
+}
+
+/**
+ * Reads a clone on disk with the git CLI. Commits come from HEAD, the way the
+ * GitHub API lists the default branch; a plain clone has no pull requests.
+ */
+export function createLocalGitSource(root: string): RepositorySource {
+  const name = path.basename(root);
+
+  return {
+    provider: "local",
+    webUrl: null,
+
+    async getInfo() {
+      let defaultBranch = "HEAD";
+      try {
+        defaultBranch = (await git(root, ["symbolic-ref", "--short", "HEAD"])).trim();
+      } catch { /* detached HEAD */ }
+      return { owner: "local", name, fullName: root, description: null, defaultBranch, localPath: root, webUrl: null };
+    },
+
+    // Local branches first, then remote-tracking ones; most recently committed first
+    async listRefs() {
+      const refs = async (args: string[]) => (await git(root, ["for-each-ref", "--format=%(refname)", ...args]))
+        .split("\n")
+        .filter((ref) => ref && !ref.endsWith("/HEAD"));
+      const branches = (await refs(["--sort=-committerdate", "refs/heads", "refs/remotes"]))
+        .sort((a, b) => Number(a.startsWith("refs/remotes/")) - Number(b.startsWith("refs/remotes/")))
+        .map((ref) => ref.replace(/^refs\/(heads|remotes)\//, ""));
+      const tags = (await refs(["--sort=-creatordate", "refs/tags"])).map((ref) => ref.replace(/^refs\/tags\//, ""));
+      return { branches: branches.slice(0, MAX_REFS), tags: tags.slice(0, MAX_REFS) };
+    },
+
+    async getTree(ref) {
+      const sha = (await git(root, ["rev-parse", `${checkRef(ref)}^{tree}`])).trim();
+      const entries = (await git(root, ["ls-tree", "-r", "-z", "--full-tree", ref]))
+        .split("\0")
+        .filter(Boolean)
+        .map((line) => {
+          const [meta, filePath] = line.split("\t");
+          const [, type, blobSha] = meta.split(" ");
+          return { type, path: filePath, sha: blobSha };
+        })
+        .filter((item) => item.type === "blob")
+        .map(({ path: filePath, sha: blobSha }) => ({ path: filePath, sha: blobSha }));
+      return { sha, entries };
+    },
+
+    async readFile(filePath, ref) {
+      checkRef(ref);
+      try {
+        const type = (await git(root, ["cat-file", "-t", `${ref}:${filePath}`])).trim();
+        if (type !== "blob") return null;
+      } catch {
+        return null;
+      }
+      const content = await gitBuffer(root, ["cat-file", "blob", `${ref}:${filePath}`]);
+      return { content: content.toString("utf-8"), path: filePath, size: content.length };
+    },
+
+    async getLastModified(filePath, ref) {
+      const date = (await git(root, ["log", "-1", "--format=%aI", checkRef(ref), "--", filePath])).trim();
+      return date || null;
+    },
+
+    async countActivity(since) {
+      const args = ["rev-list", "--count", "HEAD"];
+      if (since) args.push(`--since=${since}`);
+      const totalCommits = parseInt((await git(root, args)).trim(), 10) || 0;
+      return { totalCommits, totalPrs: 0 };
+    },
+
+    async listCommits({ since, page, perPage }) {
+      const args = ["log", "HEAD", `--format=%H${FS}%an${FS}%aI${FS}%B${RS}`, `--skip=${(page - 1) * perPage}`, `--max-count=${perPage}`];
+      if (since) args.push(`--since=${since}`);
+      const events = parseLog(await git(root, args));
+      return { events, hasMore: events.length === perPage };
+    },
+
+    async listFileCommits({ path: filePath, ref, page, perPage }) {
+      const args = ["log", checkRef(ref), `--format=%H${FS}%an${FS}%aI${FS}%B${RS}`, `--skip=${(page - 1) * perPage}`, `--max-count=${perPage}`, "--", filePath];
+      const events = parseLog(await git(root, args));
+      return { events, hasMore: events.length === perPage };
+    },
+
+    async listPullRequests() {
+      return { events: [], hasMore: false };
+    },
+
+    // Merge commits are diffed against their first parent, matching GitHub's commit stats
+    async getCommitDetails(sha) {
+      const output = await git(root, ["show", "--numstat", "-z", "--format=", "--no-renames", "--diff-merges=first-parent", checkRef(sha)]);
+      let additions = 0;
+      let deletions = 0;
+      const files: string[] = [];
+      for (const line of output.split("\0")) {
+        const [added, deleted, filePath] = line.replace(/^\n/, "").split("\t");
+        if (!filePath) continue;
+        // Binary files report "-" for both counts
+        additions += parseInt(added, 10) || 0;
+        deletions += parseInt(deleted, 10) || 0;
+        files.push(filePath);
+      }
+      return { sha, additions, deletions, filesChanged: files.length, files };
+    },
+
+    async getPullRequestDetails() {
+      throw new Error("Local repositories have no pull requests");
+    },
+  };
+}
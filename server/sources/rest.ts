@@ -0,0 +1,76 @@
+import { fetchForMode, type HostedProvider } from "../api-fixtures";
+
+// Null and undefined values are left out of the query string
+type Query = Record<string, string | number | boolean | null | undefined>;
+
+export interface RestResponse<T> {
+  data: T;
+  headers: Headers;
+}
+
+export interface RestClient {
+  get<T>(path: string, query?: Query): Promise<RestResponse<T>>;
+  // Follows rel="next" links until exhausted or maxPages is reached
+  getAll<T>(path: string, query?: Query, maxPages?: number): Promise<T[]>;
+}
+
+export function hasNextPage(headers: Headers): boolean {
+  return /rel="next"/.test(headers.get("link") ?? "");
+}
+
+function nextPageUrl(headers: Headers): string | null {
+  const match = (headers.get("link") ?? "").match(/<([^>]+)>;\s*rel="next"/);
+  return match ? match[1] : null;
+}
+
+/**
+ * A minimal JSON client for the GitLab and Gitea REST APIs. Honors the
+ * provider's *_MODE so fixtures work the same way as for GitHub.
+ */
+export function createRestClient(provider: HostedProvider, label: string, baseUrl: string, headers: Record<string, string>): RestClient {
+  const fetchImpl = fetchForMode(provider);
+  const origin = new URL(baseUrl).origin;
+
+  async function request<T>(url: string): Promise<RestResponse<T>> {
+    const res = await fetchImpl(url, { headers: { accept: "application/json", ...headers } });
+    const text = await res.text();
+    let body: any = null;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch { /* not JSON */ }
+    if (!res.ok) {
+      const detail = typeof body?.message === "string" ? body.message : typeof body?.error === "string" ? body.error : res.statusText;
+      // Carries the status like Octokit's errors do, so callers can treat 404s alike
+      throw Object.assign(new Error(`${label} request failed (${res.status}): ${detail}`), { status: res.status });
+    }
+    return { data: body as T, headers: res.headers };
+  }
+
+  function buildUrl(path: string, query: Query = {}): string {
+    const url = new URL(baseUrl.replace(/\/+$/, "") + path);
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== null && value !== undefined) url.searchParams.set(key, String(value));
+    }
+    return url.toString();
+  }
+
+  return {
+    get: (path, query) => request(buildUrl(path, query)),
+
+    async getAll<T>(path: string, query?: Query, maxPages = 50) {
+      const items: T[] = [];
+      let url: string | null = buildUrl(path, query);
+      for (let page = 0; url && page < maxPages; page++) {
+        const { data, headers: responseHeaders }: RestResponse<T[]> = await request<T[]>(url);
+        items.push(...data);
+        const next = nextPageUrl(responseHeaders);
+        url = next ? new URL(next, url).toString() : null;
+        // The auth headers go with every request, so only follow links back to the configured host
+        if (url && new URL(url).origin !== origin) {
+          throw new Error(`${label} returned a next page on ${new URL(url).origin}, not ${origin}`);
+        }
+      }
+      return items;
+    },
+  };
+}
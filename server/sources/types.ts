@@ -0,0 +1,60 @@
+import type { EnrichResponse, NewActivityEvent, RefList, RepositoryProvider } from "../../shared/schema.js";
+
+export type TreeEntry = { path: string; sha: string };
+
+export const MAX_REFS = 500;
+
+export interface RepositoryInfo {
+  owner: string;
+  name: string;
+  fullName: string;
+  description: string | null;
+  defaultBranch: string;
+  // Top level of the work tree for local clones
+  localPath: string | null;
+  // Repository home page on the host; null for local clones
+  webUrl: string | null;
+}
+
+export interface FileContent {
+  content: string;
+  path: string;
+  size: number;
+}
+
+export interface ActivityPage {
+  events: NewActivityEvent[];
+  // Whether asking for the next page can return more events
+  hasMore: boolean;
+}
+
+export type CommitDetails = EnrichResponse["commits"][number];
+export type PullRequestDetails = EnrichResponse["prs"][number];
+
+/**
+ * Everything the routes read from a repository. Pages are 1-based; `ref` is a
+ * branch, tag or SHA. Hosts without pull requests return empty pages and
+ * zero counts for them.
+ */
+export interface RepositorySource {
+  readonly provider: RepositoryProvider;
+  // Known without a request, for building links server-side
+  readonly webUrl: string | null;
+  getInfo(): Promise<RepositoryInfo>;
+  // Branch and tag names, at most MAX_REFS of each
+  listRefs(): Promise<RefList>;
+  // The root tree SHA and every blob in the repository tree at the given ref
+  getTree(ref: string): Promise<{ sha: string; entries: TreeEntry[] }>;
+  // Null when the path does not exist or is not a file
+  readFile(path: string, ref: string): Promise<FileContent | null>;
+  // Author date of the last commit touching the path
+  getLastModified(path: string, ref: string): Promise<string | null>;
+  countActivity(since: string | null): Promise<{ totalCommits: number; totalPrs: number }>;
+  listCommits(options: { since: string | null; page: number; perPage: number }): Promise<ActivityPage>;
+  // Commits at `ref` that touched the path, newest first; renames are not followed
+  listFileCommits(options: { path: string; ref: string; page: number; perPage: number }): Promise<ActivityPage>;
+  // Most recently updated first, stopping at the first one older than updatedSince
+  listPullRequests(options: { updatedSince: string | null; page: number; perPage: number }): Promise<ActivityPage>;
+  getCommitDetails(sha: string): Promise<CommitDetails>;
+  getPullRequestDetails(prNumber: number): Promise<PullRequestDetails>;
+}
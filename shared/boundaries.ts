@@ -0,0 +1,112 @@
+import { globToRegexSource } from "./layout";
+import type { ActivityEvent, AgentRole } from "./schema";
+
+// A path rule parsed from one bullet of an agent's `## Boundaries` section
+export interface BoundaryRule {
+  kind: "owned" | "forbidden";
+  pattern: string;
+  // The bullet the rule was parsed from
+  source: string;
+}
+
+export interface BoundaryViolation {
+  agentRoleId: string;
+  agentName: string;
+  eventId: string;
+  sha: string | null;
+  prNumber: number | null;
+  path: string;
+  // "forbidden": the agent's own rules forbid the path;
+  // "foreign": the path is owned by another agent and not by this one
+  kind: "forbidden" | "foreign";
+  rule: BoundaryRule;
+  // Agent owning the path, for "foreign" violations
+  ownerName: string | null;
+  createdAt: string;
+}
+
+// Negated bullets describe what an agent must not touch
+const NEGATION = /\b(do not|don't|never|must not|should not|cannot|can't|avoid|forbidden|not allowed|off-limits|read-only)\b/i;
+
+export function matchesPathPattern(path: string, pattern: string): boolean {
+  if (/[*?]/.test(pattern)) return new RegExp(globToRegexSource(pattern), "i").test(path);
+  const prefix = pattern.replace(/\/+$/, "");
+  return path === prefix || path.startsWith(prefix + "/");
+}
+
+/**
+ * Turns boundary bullets into path rules. Path-like tokens in backticks
+ * (`src/foo/`, `packages/*\/lib`, `package.json`) become owned patterns, or
+ * forbidden ones when the bullet is negated.
+ */
+export function parseBoundaries(lines: string[] | null | undefined): BoundaryRule[] {
+  const rules: BoundaryRule[] = [];
+  for (const line of lines ?? []) {
+    const kind = NEGATION.test(line) ? "forbidden" : "owned";
+    for (const m of line.matchAll(/`([^`\s]+)`/g)) {
+      if (!m[1].includes("/") && !m[1].includes(".")) continue;
+      rules.push({ kind, pattern: m[1].replace(/^\.\//, ""), source: line });
+    }
+  }
+  return rules;
+}
+
+/**
+ * Checks the touched files of every attributed commit and PR against the
+ * boundaries of the agent it is attributed to. The agent's own scanned files
+ * are always allowed; the shared role only has its forbidden rules checked.
+ */
+export function checkBoundaries(events: ActivityEvent[], roles: AgentRole[]): BoundaryViolation[] {
+  const rulesByRole = new Map(roles.map((role) => [role.id, parseBoundaries(role.boundaries)]));
+  const rolesById = new Map(roles.map((role) => [role.id, role]));
+  const violations: BoundaryViolation[] = [];
+
+  for (const event of events) {
+    const role = event.agentRoleId ? rolesById.get(event.agentRoleId) : undefined;
+    if (!role || !event.files?.length) continue;
+    const rules = rulesByRole.get(role.id) ?? [];
+    const ownFiles = new Set(role.files.map((f) => f.path));
+    const owned = rules.filter((r) => r.kind === "owned");
+    const forbidden = rules.filter((r) => r.kind === "forbidden");
+
+    for (const path of event.files) {
+      if (ownFiles.has(path)) continue;
+      const base = {
+        agentRoleId: role.id,
+        agentName: role.name,
+        eventId: event.id,
+        sha: event.sha,
+        prNumber: event.prNumber,
+        path,
+        createdAt: event.createdAt,
+      };
+
+      const forbiddenRule = forbidden.find((r) => matchesPathPattern(path, r.pattern));
+      if (forbiddenRule) {
+        violations.push({ ...base, kind: "forbidden", rule: forbiddenRule, ownerName: null });
+        continue;
+      }
+      if (role.category === "shared" || owned.some((r) => matchesPathPattern(path, r.pattern))) continue;
+
+      for (const other of roles) {
+        if (other.id === role.id || other.category === "shared") continue;
+        const otherRule = rulesByRole.get(other.id)?.find((r) => r.kind === "owned" && matchesPathPattern(path, r.pattern));
+        if (otherRule) {
+          violations.push({ ...base, kind: "foreign", rule: otherRule, ownerName: other.name });
+          break;
+        }
+      }
+    }
+  }
+
+  return violations.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+// Plain-text digest of the violations, sent to the analyze prompt as grounding
+export function summarizeBoundaryViolations(violations: BoundaryViolation[], limit = 15): string {
+  return violations.slice(0, limit).map((v) => {
+    const ref = v.sha ? v.sha.slice(0, 7) : v.prNumber != null ? `#${v.prNumber}` : "";
+    const what = v.kind === "forbidden" ? "forbidden path" : `path owned by ${v.ownerName}`;
+    return `- ${v.agentName} touched ${what} ${v.path}${ref ? ` in ${ref}` : ""} (rule: ${v.rule.pattern})`;
+  }).join("\n");
+}
@@ -0,0 +1,122 @@
+import type { AgentFileType, LayoutConfig, LayoutRule } from "./schema";
+
+export const SHARED_AGENT = "_SHARED";
+
+export const LAYOUT_FILE_PATH = ".bha/layout.json";
+
+// The conventional BHA layout. Used when neither the repository nor the user
+// provides a layout of their own.
+export const DEFAULT_LAYOUT: LayoutConfig = {
+  version: 1,
+  rules: [
+    // Domain agent prompt pairs
+    { label: "Planning prompts", pattern: "^docs/prompts/planning-([^/]+)\\.md$", syntax: "regex", fileType: "planning-prompt", nameTransform: "upper" },
+    { label: "Execution prompts", pattern: "^docs/prompts/execution-([^/]+)\\.md$", syntax: "regex", fileType: "execution-prompt", nameTransform: "upper" },
+    // Daily agent single prompts (exclude README and planning-*/execution-* which matched above)
+    { label: "Daily prompts", pattern: "^docs/prompts/(?!planning-|execution-|README)([^/]+)\\.md$", syntax: "regex", fileType: "prompt", nameTransform: "upper" },
+    { label: "Status files", pattern: "docs/status/{agent}.md", syntax: "glob", fileType: "status", nameTransform: "upper" },
+    { label: "Progress logs", pattern: "docs/PROGRESS-{agent}.md", syntax: "glob", fileType: "progress", nameTransform: "upper" },
+    // Plans in agent-named subdirectories: .sys/plans/{agent}/...
+    { label: "Agent plan folders", pattern: ".sys/plans/{agent}/**", syntax: "glob", fileType: "plan", nameTransform: "upper" },
+    // Loose plans like .sys/plans/2026-10-29-PLAYER-Async-Seek.md
+    { label: "Loose plans", pattern: ".sys/plans/*.md", syntax: "glob", fileType: "plan", matchKnownAgent: true, nameTransform: "upper" },
+    // Shared governance files
+    { label: "AGENTS.md", pattern: "AGENTS.md", syntax: "glob", fileType: "governance", fixedAgent: SHARED_AGENT, nameTransform: "none" },
+    { label: "CLAUDE.md", pattern: "CLAUDE.md", syntax: "glob", fileType: "governance", fixedAgent: SHARED_AGENT, nameTransform: "none" },
+    { label: ".github/agents", pattern: ".github/agents/**", syntax: "glob", fileType: "other", fixedAgent: SHARED_AGENT, nameTransform: "none" },
+  ],
+};
+
+export type ClassifiedFile = {
+  path: string;
+  fileType: AgentFileType;
+  agentName: string;
+  ruleIndex: number;
+};
+
+/**
+ * Converts a glob into an anchored regex source. Supports `*`, `?`, `**` and
+ * the `{agent}` placeholder, which becomes the single capture group.
+ */
+export function globToRegexSource(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (glob.startsWith("{agent}", i)) {
+      out += "([^/]+)";
+      i += "{agent}".length - 1;
+    } else if (glob.startsWith("**/", i)) {
+      out += "(?:.*/)?";
+      i += 2;
+    } else if (glob.startsWith("**", i)) {
+      out += ".*";
+      i += 1;
+    } else if (ch === "*") {
+      out += "[^/]*";
+    } else if (ch === "?") {
+      out += "[^/]";
+    } else {
+      out += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return `^${out}$`;
+}
+
+export function compileLayoutRule(rule: LayoutRule): RegExp {
+  const source = rule.syntax === "regex" ? rule.pattern : globToRegexSource(rule.pattern);
+  return new RegExp(source, "i");
+}
+
+function transformName(name: string, transform: LayoutRule["nameTransform"]): string {
+  switch (transform) {
+    case "upper":
+      return name.toUpperCase();
+    case "lower":
+      return name.toLowerCase();
+    default:
+      return name;
+  }
+}
+
+/**
+ * Applies layout rules to a list of repository paths. The first matching rule
+ * wins. Rules flagged `matchKnownAgent` run in a second pass so that they can
+ * attribute files to agents discovered by the other rules.
+ */
+export function classifyPaths(paths: string[], layout: LayoutConfig): ClassifiedFile[] {
+  const compiled = layout.rules.map((rule) => ({ rule, regex: compileLayoutRule(rule) }));
+  const classified: ClassifiedFile[] = [];
+  const deferred: { path: string; ruleIndex: number }[] = [];
+
+  for (const path of paths) {
+    for (let ruleIndex = 0; ruleIndex < compiled.length; ruleIndex++) {
+      const { rule, regex } = compiled[ruleIndex];
+      const m = path.match(regex);
+      if (!m) continue;
+
+      if (rule.matchKnownAgent) {
+        deferred.push({ path, ruleIndex });
+        break;
+      }
+      const captured = rule.fixedAgent ?? m[rule.agentGroup ?? 1];
+      if (!captured) continue;
+      const agentName = rule.fixedAgent ? captured : transformName(captured, rule.nameTransform);
+      classified.push({ path, fileType: rule.fileType, agentName, ruleIndex });
+      break; // first match wins
+    }
+  }
+
+  const knownAgents = new Set(classified.map((f) => f.agentName).filter((n) => n !== SHARED_AGENT));
+
+  for (const { path, ruleIndex } of deferred) {
+    const fileName = (path.split("/").pop() || "").toUpperCase();
+    for (const agent of knownAgents) {
+      if (fileName.includes(agent.toUpperCase())) {
+        classified.push({ path, fileType: layout.rules[ruleIndex].fileType, agentName: agent, ruleIndex });
+        break;
+      }
+    }
+  }
+
+  return classified;
+}
@@ -0,0 +1,120 @@
+export interface DiffLine {
+  kind: "same" | "added" | "removed";
+  text: string;
+  // 1-based line numbers in the old and new text; null on the side the line is missing from
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+// A run of changed lines with surrounding context; unchanged stretches between hunks are skipped
+export interface DiffHunk {
+  lines: DiffLine[];
+  // Unchanged lines left out before this hunk
+  skippedBefore: number;
+}
+
+// Above this many cells the middle of the diff is shown as replaced wholesale
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  return text.replace(/\r\n/g, "\n").replace(/\n$/, "").split("\n");
+}
+
+/**
+ * Line diff of two texts by longest common subsequence. The common prefix and
+ * suffix are matched first, so typical prompt edits stay cheap; a very large
+ * changed middle is reported as removed then added.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: ("same" | "added" | "removed")[] = [];
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    ops.push(...midA.map(() => "removed" as const), ...midB.map(() => "added" as const));
+  } else {
+    // lcs[i][j] = LCS length of midA[i:] and midB[j:]
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        ops.push("same");
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+        ops.push("removed");
+        i++;
+      } else {
+        ops.push("added");
+        j++;
+      }
+    }
+    while (i++ < midA.length) ops.push("removed");
+    while (j++ < midB.length) ops.push("added");
+  }
+
+  const lines: DiffLine[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  const push = (kind: DiffLine["kind"]) => {
+    if (kind === "added") {
+      lines.push({ kind, text: b[newLine], oldLine: null, newLine: ++newLine });
+    } else if (kind === "removed") {
+      lines.push({ kind, text: a[oldLine], oldLine: ++oldLine, newLine: null });
+    } else {
+      lines.push({ kind, text: b[newLine], oldLine: ++oldLine, newLine: ++newLine });
+    }
+  };
+  for (let k = 0; k < prefix; k++) push("same");
+  for (const op of ops) push(op);
+  for (let k = 0; k < suffix; k++) push("same");
+  return lines;
+}
+
+// Groups changed lines into hunks with `context` unchanged lines around each
+export function diffHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const changed = lines.map((l, i) => (l.kind === "same" ? -1 : i)).filter((i) => i >= 0);
+  if (changed.length === 0) return [];
+
+  const hunks: DiffHunk[] = [];
+  let start = Math.max(0, changed[0] - context);
+  let end = Math.min(lines.length, changed[0] + context + 1);
+  let lastEnd = 0;
+  for (const index of changed.slice(1)) {
+    if (index - context <= end) {
+      end = Math.min(lines.length, index + context + 1);
+      continue;
+    }
+    hunks.push({ lines: lines.slice(start, end), skippedBefore: start - lastEnd });
+    lastEnd = end;
+    start = index - context;
+    end = Math.min(lines.length, index + context + 1);
+  }
+  hunks.push({ lines: lines.slice(start, end), skippedBefore: start - lastEnd });
+  return hunks;
+}
+
+export function countChanges(lines: DiffLine[]): { added: number; removed: number } {
+  return {
+    added: lines.filter((l) => l.kind === "added").length,
+    removed: lines.filter((l) => l.kind === "removed").length,
+  };
+}
@@ -0,0 +1,87 @@
+import type { PromptTemplate, PromptTemplateRef } from "./schema";
+
+// Placeholders an analysis prompt can use as `{{name}}`, with what they expand to
+export const PROMPT_VARIABLES = {
+  repository: "The repository as owner/name",
+  commitCount: "Number of commits fetched",
+  prCount: "Number of pull requests fetched",
+  commitSummary: "Recent commits (date, SHA, subject, author and message excerpt) as far as the token budget allows; per-period summaries for large histories",
+  prSummary: "Recent pull requests (number, title, state, author and description excerpt) as far as the token budget allows",
+  agentFiles: "Excerpts of each agent's status file and most recent plans",
+  roles: "The scanned agent roster: name, category, status file date, last activity and description",
+  boundaries: "Each agent's boundary bullets",
+  previousAnalysis: "Date, gravity score and executive summary of the last analysis",
+  grounding: "Deterministic thrashing and boundary findings, with a heading; empty when there are none",
+} as const;
+
+export type PromptVariable = keyof typeof PROMPT_VARIABLES;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_]\w*)\s*\}\}/g;
+
+// The prompt used when a repository has no template of its own
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  version: 3,
+  content: `Analyze the following git activity for the repository "{{repository}}", which operates using the Black Hole Architecture.
+
+ROLE & OBJECTIVE:
+Act as a Principal Product Strategist and expert Technical Advisor who is deeply committed to the long-term success of this repository.
+Your goal is to provide high-level, actionable guidance that propels the project forward. You must evaluate the activity not just for mechanical correctness, but for product value, user experience, and strategic momentum. Look at the big picture and identify what matters most for the system's success.
+
+IMPORTANT RULES:
+1. All agents commit under the human's Git identity. DO NOT flag a single commit author as an issue or anomaly. This is expected behavior.
+2. Balance your analysis: rigidly enforce the underlying architectural health (quality, velocity, boundary correctness) WHILE actively guiding the broader product trajectory (value delivery, UX refinement, strategic focus).
+
+Do not explain the Black Hole Architecture (Jules, temporal scheduling, strict role separation, file ownership, memory files). Instead, intuitively apply this knowledge to evaluate the actual git activity.
+
+Questions to answer deeply in your analysis:
+- Product & Strategy Directive: Are we building the right things? Synthesize the recent activity to recommend the highest-leverage strategic next steps that will maximize value and momentum.
+- Architectural Execution: Are planners emitting tight, actionable specs? Are executors staying strictly within their boundaries and successfully merging changes without friction?
+- Momentum & Convergence: Is the system rapidly converging towards its vision, or are agents thrashing, looping, or churning on specific files?
+- Advisory & Course Correction: Identify any "weak signals" (e.g., recurring logic failures, memory file drift, scope creep) that need immediate addressing. Provide strongly opinionated, actionable recommendations to ensure the team succeeds.
+
+Agent Roster (report agentStates for these agents only, using exactly these names):
+{{roles}}
+
+Agent Boundaries (as declared in each agent's prompt):
+{{boundaries}}
+
+Previous Analysis (note what has improved, regressed or stayed unresolved since then):
+{{previousAnalysis}}
+
+Agent Status Files and Recent Plans:
+{{agentFiles}}
+
+Recent Commits ({{commitCount}} fetched):
+{{commitSummary}}
+
+Recent Pull Requests ({{prCount}} fetched):
+{{prSummary}}
+
+Total commits fetched: {{commitCount}}
+Total PRs fetched: {{prCount}}
+{{grounding}}
+You must respond with a fully populated JSON object matching the requested schema.`,
+};
+
+// Placeholder names in the template that are not known variables
+export function unknownPromptVariables(content: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of Array.from(content.matchAll(PLACEHOLDER))) {
+    if (!Object.hasOwn(PROMPT_VARIABLES, match[1])) unknown.add(match[1]);
+  }
+  return Array.from(unknown);
+}
+
+/**
+ * Substitutes every `{{variable}}` in the template. Unknown placeholders are
+ * left as written; templates are checked with unknownPromptVariables first.
+ */
+export function renderPromptTemplate(content: string, values: Record<PromptVariable, string>): string {
+  return content.replace(PLACEHOLDER, (placeholder, name: string) =>
+    Object.hasOwn(values, name) ? values[name as PromptVariable] : placeholder,
+  );
+}
+
+export function describePromptTemplate(ref: PromptTemplateRef): string {
+  return `${ref.source === "default" ? "Built-in" : "Repository"} prompt v${ref.version}`;
+}
@@ -0,0 +1,65 @@
+import type { Repository } from "./schema";
+
+export type LinkableRepository = Pick<Repository, "owner" | "name" | "provider" | "webUrl">;
+
+export type RefKind = "branch" | "tag" | "commit";
+
+export interface RepoLinks {
+  commit(sha: string): string | null;
+  pullRequest(prNumber: number): string | null;
+  // `kind` matters on Gitea only; full commit SHAs are recognised without it
+  file(ref: string, path: string, kind?: RefKind): string | null;
+}
+
+// "GitHub", "GitLab" or "Gitea", for link labels; null when there is nothing to link to
+export function hostLabel(repo: Pick<Repository, "provider">): string | null {
+  switch (repo.provider ?? "github") {
+    case "github": return "GitHub";
+    case "gitlab": return "GitLab";
+    case "gitea": return "Gitea";
+    case "local": return null;
+  }
+}
+
+function encodePath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+// Gitea puts the ref kind in file URLs; its legacy /src/<ref>/ form looks the
+// ref up as a branch, tag or commit and redirects, so it covers unknown kinds
+function giteaSrcPath(ref: string, kind: RefKind | undefined): string {
+  const resolved = kind ?? (/^[0-9a-f]{40}([0-9a-f]{24})?$/i.test(ref) ? "commit" : undefined);
+  return resolved ? `src/${resolved}/${encodePath(ref)}` : `src/${encodePath(ref)}`;
+}
+
+/**
+ * Web links for a repository on its host. Repositories stored before
+ * `webUrl` existed are all on github.com. Local clones have no links.
+ */
+export function repoLinks(repo: LinkableRepository): RepoLinks {
+  const provider = repo.provider ?? "github";
+  const base = repo.webUrl?.replace(/\/+$/, "") ?? (provider === "github" ? `https://github.com/${repo.owner}/${repo.name}` : null);
+  if (!base || provider === "local") {
+    return { commit: () => null, pullRequest: () => null, file: () => null };
+  }
+  switch (provider) {
+    case "gitlab":
+      return {
+        commit: (sha) => `${base}/-/commit/${sha}`,
+        pullRequest: (n) => `${base}/-/merge_requests/${n}`,
+        file: (ref, path) => `${base}/-/blob/${encodePath(ref)}/${encodePath(path)}`,
+      };
+    case "gitea":
+      return {
+        commit: (sha) => `${base}/commit/${sha}`,
+        pullRequest: (n) => `${base}/pulls/${n}`,
+        file: (ref, path, kind) => `${base}/${giteaSrcPath(ref, kind)}/${encodePath(path)}`,
+      };
+    default:
+      return {
+        commit: (sha) => `${base}/commit/${sha}`,
+        pullRequest: (n) => `${base}/pull/${n}`,
+        file: (ref, path) => `${base}/blob/${encodePath(ref)}/${encodePath(path)}`,
+      };
+  }
+}
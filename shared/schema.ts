@@ -1,3 +1,4 @@
+import { isSafe } from "redos-detector";
 import { z } from "zod";
 
 export const highFidelityAnalysisSchema = z.object({
@@ -39,32 +40,296 @@ export const highFidelityAnalysisSchema = z.object({
 
 export type HighFidelityAnalysis = z.infer<typeof highFidelityAnalysisSchema>;
 
+// A deep dive into one agent: its prompts, status, plans and attributed activity
+export const agentAnalysisSchema = z.object({
+  healthScore: z.number().min(0).max(100),
+  summary: z.string(),
+  planQuality: z.object({
+    rating: z.enum(["strong", "adequate", "weak", "missing"]),
+    findings: z.array(z.string()),
+  }),
+  // Whether the commits and pull requests carry out what the plans said
+  executionFidelity: z.object({
+    rating: z.enum(["faithful", "partial", "divergent", "unknown"]),
+    findings: z.array(z.string()),
+  }),
+  scopeDrift: z.array(z.object({
+    description: z.string(),
+    evidence: z.string(),
+    severity: z.enum(["low", "medium", "critical"]),
+  })),
+  stuckSignals: z.array(z.object({
+    signal: z.string(),
+    evidence: z.string(),
+    severity: z.enum(["low", "medium", "critical"]),
+  })),
+  recommendedPromptEdits: z.array(z.object({
+    file: z.string(),
+    change: z.string(),
+    reason: z.string(),
+  })),
+});
+
+export type AgentAnalysis = z.infer<typeof agentAnalysisSchema>;
+
+export const agentFileTypeSchema = z.enum([
+  "planning-prompt",
+  "execution-prompt",
+  "prompt",
+  "status",
+  "progress",
+  "plan",
+  "governance",
+  "other",
+]);
+
+export type AgentFileType = z.infer<typeof agentFileTypeSchema>;
+
+// A single classification rule for the agent scan. Glob patterns may use a
+// `{agent}` placeholder to capture the agent name; regex patterns capture it
+// via `agentGroup` (defaults to the first group).
+// Regex rules come from the scanned repository and run on the server
+const MAX_REGEX_PATTERN_LENGTH = 200;
+// Patterns the backtracking checker cannot clear in time are rejected as well
+const REGEX_CHECK_TIMEOUT_MS = 100;
+
+export const layoutRuleSchema = z.object({
+  label: z.string().optional(),
+  pattern: z.string().min(1),
+  syntax: z.enum(["glob", "regex"]).default("glob"),
+  fileType: agentFileTypeSchema,
+  agentGroup: z.number().int().min(1).optional(),
+  fixedAgent: z.string().min(1).optional(),
+  // Attribute to an already-known agent whose name appears in the file name
+  matchKnownAgent: z.boolean().optional(),
+  nameTransform: z.enum(["upper", "lower", "none"]).default("upper"),
+}).superRefine((rule, ctx) => {
+  if (rule.syntax !== "regex") return;
+  const name = rule.label ? `"${rule.label}"` : rule.pattern;
+  const fail = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["pattern"], message: `Rule ${name}: ${message}` });
+  if (rule.pattern.length > MAX_REGEX_PATTERN_LENGTH) {
+    return fail(`regex patterns are limited to ${MAX_REGEX_PATTERN_LENGTH} characters`);
+  }
+  let regex: RegExp;
+  try {
+    regex = new RegExp(rule.pattern, "i");
+  } catch (e: any) {
+    return fail(`invalid regular expression (${e.message})`);
+  }
+  if (!isSafe(regex, { timeout: REGEX_CHECK_TIMEOUT_MS }).safe) {
+    fail("the pattern can backtrack excessively on some paths (e.g. (a|aa)*b or .*.*x); simplify it or use a glob");
+  }
+});
+
+const MAX_LAYOUT_RULES = 50;
+
+export const layoutConfigSchema = z.object({
+  version: z.literal(1).default(1),
+  rules: z.array(layoutRuleSchema).min(1).max(MAX_LAYOUT_RULES),
+});
+
+export type LayoutRule = z.infer<typeof layoutRuleSchema>;
+export type LayoutConfig = z.infer<typeof layoutConfigSchema>;
+
+// A repository's own analysis prompt, with `{{variable}}` placeholders
+// (see shared/prompt-template.ts)
+export const promptTemplateSchema = z.object({
+  // Bumped on every save, so analyses record which revision produced them
+  version: z.number().int().min(1),
+  content: z.string().trim().min(1).max(20000),
+});
+
+export type PromptTemplate = z.infer<typeof promptTemplateSchema>;
+
+// Which template an analysis was generated from
+export interface PromptTemplateRef {
+  source: "default" | "repository";
+  version: number;
+}
+
+// What the client knows beyond the fetched activity, sent with analyze requests
+export const analysisContextSchema = z.object({
+  roles: z.array(z.object({
+    name: z.string().min(1),
+    category: z.enum(["domain", "daily", "shared"]),
+    description: z.string().nullable(),
+    boundaries: z.array(z.string()).nullable(),
+    // Date of the agent's status file, when it has one
+    statusUpdatedAt: z.string().nullable().default(null),
+    lastActiveAt: z.string().nullable().default(null),
+    // Read by the server and excerpted into the prompt as far as the token budget allows
+    statusFile: z.string().nullable().default(null),
+    planFiles: z.array(z.string()).max(5).default([]),
+  })).max(200).default([]),
+  previousAnalysis: z.object({
+    createdAt: z.string(),
+    score: z.number().nullable(),
+    summary: z.string(),
+  }).nullable().default(null),
+});
+
+export type AnalysisContext = z.infer<typeof analysisContextSchema>;
+
+// The agent and its stored activity, sent with analyze-agent requests; the
+// server reads the listed files itself
+export const agentAnalysisInputSchema = z.object({
+  agent: z.object({
+    name: z.string().min(1),
+    category: z.enum(["domain", "daily", "shared"]),
+    description: z.string().nullable(),
+    boundaries: z.array(z.string()).nullable(),
+  }),
+  files: z.array(z.object({
+    path: z.string().min(1),
+    type: agentFileTypeSchema,
+  })).max(20),
+  // Commits and pull requests attributed to the agent, newest first
+  events: z.array(z.object({
+    type: z.enum(["commit", "pull_request"]),
+    title: z.string(),
+    description: z.string().nullable().default(null),
+    sha: z.string().nullable().default(null),
+    prNumber: z.number().nullable().default(null),
+    author: z.string().nullable().default(null),
+    state: z.enum(["open", "closed", "merged"]).nullable().default(null),
+    branch: z.string().nullable().default(null),
+    files: z.array(z.string()).nullable().default(null),
+    createdAt: z.string(),
+  })).max(300).default([]),
+});
+
+export type AgentAnalysisInput = z.infer<typeof agentAnalysisInputSchema>;
+
+// A branch, tag or commit SHA named in a request
+export const gitRefSchema = z.string().min(1).max(255);
+
+// The ref a request reads at: its branch, else the repository's default branch,
+// else main. Empty strings count as unset.
+export const refRequestSchema = z.object({
+  branch: gitRefSchema.or(z.literal("")).nullish(),
+  defaultBranch: gitRefSchema.or(z.literal("")).nullish(),
+}).transform(({ branch, defaultBranch }) => branch || defaultBranch || "main");
+
+// Next page per list for /api/github/sync; null once that list is exhausted
+export const syncCursorSchema = z.object({
+  commitsPage: z.number().int().positive().nullable(),
+  prsPage: z.number().int().positive().nullable(),
+});
+
+export type SyncCursor = z.infer<typeof syncCursorSchema>;
+
+// Paging state sent with sync requests; no cursor starts at the first page of both lists
+export const syncRequestSchema = z.object({
+  since: z.string().datetime({ offset: true }).nullable().default(null),
+  cursor: syncCursorSchema.nullable().default(null),
+});
+
+export interface AiProviderSummary {
+  id: string;
+  label: string;
+  type: "openai" | "anthropic" | "google" | "openai-compatible" | "azure" | "mock";
+  model: string;
+  baseURL: string | null;
+  // Masked
+  apiKey: string | null;
+  temperature: number | null;
+  maxOutputTokens: number | null;
+  timeoutMs: number | null;
+  contextWindow: number | null;
+  isDefault: boolean;
+}
+
 export interface Settings {
   githubPat: string | null;
+  // live | fixture | record (GITHUB_MODE)
+  githubMode: string;
+  gitlabUrl: string;
+  // Null when GITEA_URL is not set
+  giteaUrl: string | null;
   aiProvider: string | null;
   aiApiKey: string | null;
   aiModel: string | null;
   configured: boolean;
+  // Every provider from the environment and the providers file
+  aiProviders: AiProviderSummary[];
+  // Set when the provider configuration could not be loaded
+  aiProvidersError: string | null;
 }
 
+// Where a repository is read from; "local" is a clone on the server's disk
+export type RepositoryProvider = "github" | "gitlab" | "gitea" | "local";
+
 export interface Repository {
   id: string;
+  // Local repositories use "local" as owner and the directory name as name;
+  // on GitLab the owner is the full group path
   owner: string;
   name: string;
   fullName: string;
+  // Missing on repositories stored before providers existed, which are all GitHub
+  provider?: RepositoryProvider;
+  localPath?: string | null;
+  // Home page on the host, used to build commit, PR and file links
+  webUrl?: string | null;
   description: string | null;
   defaultBranch: string | null;
   lastAnalyzedAt: string | null;
   gravityScore: number | null;
   totalPrs: number | null;
   totalCommits: number | null;
+  layoutConfig?: LayoutConfig | null;
+  // Overrides the built-in analysis prompt
+  promptTemplate?: PromptTemplate | null;
+  scanTreeSha?: string | null;
+  // Branch or tag the stored roster was scanned at; the default branch when unset
+  scanRef?: string | null;
+  activitySync?: ActivitySyncState | null;
   createdAt: string;
 }
 
+// The window of history already synced into the local activity store
+export interface ActivitySyncState {
+  // Start of the synced window; null when synced from the beginning of history
+  from: string | null;
+  through: string;
+}
+
+export type NewActivityEvent = Omit<ActivityEvent, "id" | "repositoryId" | "agentRoleId">;
+
 export interface AgentFile {
   path: string;
-  type: "planning-prompt" | "execution-prompt" | "prompt" | "status" | "progress" | "plan" | "governance" | "other";
+  type: AgentFileType;
   date?: string | null;
+  sha?: string | null;
+}
+
+export interface AgentMetrics {
+  commitCount: number;
+  prCount: number;
+  mergedPrCount: number;
+  // Share of closed PRs that were merged; null until a PR has closed
+  mergeRate: number | null;
+  // Median hours from PR creation to merge
+  medianCycleTimeHours: number | null;
+  plansWritten: number;
+  plansExecuted: number;
+  linesAdded: number;
+  linesDeleted: number;
+  lastActiveAt: string | null;
+  computedAt: string;
+}
+
+// Parsed from an agent's status file and progress log (shared/status-parser.ts)
+export interface AgentState {
+  currentTask: string | null;
+  version: string | null;
+  blockers: string[];
+  // Newest first
+  completed: string[];
+  // Last update the files record, else null
+  updatedAt: string | null;
+  // Files the state was read from
+  sources: string[];
 }
 
 export interface AgentRole {
@@ -75,23 +340,113 @@ export interface AgentRole {
   files: AgentFile[];
   category: "domain" | "daily" | "shared";
   boundaries: string[] | null;
+  // Missing on roles scanned before status files were parsed
+  state?: AgentState | null;
   status: string | null;
   planCount: number | null;
   prCount: number | null;
   lastActiveAt: string | null;
+  metrics?: AgentMetrics | null;
   createdAt: string;
 }
 
-export interface AnalysisResult {
+export interface ScanChanges {
+  rolesAdded: string[];
+  rolesRemoved: string[];
+  rolesChanged: string[];
+  filesAdded: string[];
+  filesRemoved: string[];
+  filesChanged: string[];
+}
+
+// Branch and tag names from /api/github/refs
+export interface RefList {
+  branches: string[];
+  tags: string[];
+}
+
+// A prompt file that differs between two refs; content is null on the side it is missing from
+export interface RosterFileChange {
+  path: string;
+  type: AgentFileType;
+  change: "added" | "removed" | "modified";
+  before: string | null;
+  after: string | null;
+}
+
+export interface RosterRoleChange {
+  name: string;
+  boundariesAdded: string[];
+  boundariesRemoved: string[];
+  files: RosterFileChange[];
+}
+
+// The agent rosters of two branches or tags, compared from `base` to `head`
+export interface RosterComparison {
+  base: string;
+  head: string;
+  rolesAdded: string[];
+  rolesRemoved: string[];
+  rolesChanged: RosterRoleChange[];
+  rolesUnchanged: string[];
+}
+
+// Streamed by long-running endpoints (scan, analyze) when called with `stream: true`
+export interface ProgressEvent {
+  phase: string;
+  message: string;
+  current?: number;
+  total?: number;
+}
+
+// Bumped whenever the shape of stored analysis details changes; older records
+// are migrated when IndexedDB is opened.
+export const ANALYSIS_DETAILS_VERSION = 3;
+
+export interface AiAnalysisDetails {
+  version: typeof ANALYSIS_DETAILS_VERSION;
+  analysis: HighFidelityAnalysis | null;
+  fullResponse: string | null;
+  commitsAnalyzed: number | null;
+  prsAnalyzed: number | null;
+  // Null for analyses run before prompt templates were recorded
+  promptTemplate: PromptTemplateRef | null;
+}
+
+interface AnalysisResultBase {
   id: string;
   repositoryId: string;
-  type: string;
   summary: string;
-  details: Record<string, any> | null;
   score: number | null;
   createdAt: string;
 }
 
+export interface AiAnalysisResult extends AnalysisResultBase {
+  type: "ai_analysis";
+  details: AiAnalysisDetails;
+}
+
+export const AGENT_ANALYSIS_DETAILS_VERSION = 1;
+
+export interface AgentAnalysisDetails {
+  version: typeof AGENT_ANALYSIS_DETAILS_VERSION;
+  agentName: string;
+  analysis: AgentAnalysis | null;
+  fullResponse: string | null;
+  // Attributed commits and pull requests sent, and the agent files that could be read
+  eventsAnalyzed: number;
+  filesRead: string[];
+}
+
+// A deep dive into one agent, kept apart from the repository-wide analyses
+export interface AgentAnalysisResult extends AnalysisResultBase {
+  type: "agent_analysis";
+  agentRoleId: string;
+  details: AgentAnalysisDetails;
+}
+
+export type AnalysisResult = AiAnalysisResult | AgentAnalysisResult;
+
 export interface ActivityEvent {
   id: string;
   repositoryId: string;
@@ -105,5 +460,50 @@ export interface ActivityEvent {
   filesChanged: number | null;
   additions: number | null;
   deletions: number | null;
+  // Touched paths, when known
+  files?: string[] | null;
+  // Pull requests only
+  branch?: string | null;
+  labels?: string[] | null;
+  state?: "open" | "closed" | "merged" | null;
+  mergedAt?: string | null;
+  closedAt?: string | null;
+  // How confident the attribution to agentRoleId is (0–1), and why
+  attributionConfidence?: number | null;
+  attributionReason?: string | null;
   createdAt: string;
 }
+
+// Diff stats and touched paths that the GitHub list endpoints leave out
+export interface ChangeDetails {
+  additions: number;
+  deletions: number;
+  filesChanged: number;
+  files: string[];
+}
+
+export interface EnrichResponse {
+  commits: (ChangeDetails & { sha: string })[];
+  prs: (ChangeDetails & { prNumber: number; state: "open" | "closed" | "merged" })[];
+  // "commit:<sha>" / "pr:<number>" of items that could not be fetched
+  failed: string[];
+}
+
+// Cached per commit SHA (and per closed PR) so enrichment never refetches them
+export interface CachedChangeDetails extends ChangeDetails {
+  id: string;
+  repositoryId: string;
+  fetchedAt: string;
+}
+
+// An item the server could not enrich (e.g. a commit that was force-pushed
+// away), kept under the same key so it is retried with backoff, not on every pass
+export interface CachedEnrichmentFailure {
+  id: string;
+  repositoryId: string;
+  failedAt: string;
+  attempts: number;
+  retryAfter: string;
+}
+
+export type CachedEnrichment = CachedChangeDetails | CachedEnrichmentFailure;
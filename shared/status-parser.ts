@@ -0,0 +1,207 @@
+import type { AgentFileType, AgentState } from "./schema";
+
+// A status file or progress log to read an agent's state from
+export interface StateFile {
+  path: string;
+  type: AgentFileType;
+  content: string;
+}
+
+type Field = "currentTask" | "version" | "blockers" | "completed" | "updatedAt";
+
+interface Item {
+  text: string;
+  date: string | null;
+}
+
+interface ParsedFile {
+  currentTask: string | null;
+  version: string | null;
+  updatedAt: string | null;
+  blockers: string[];
+  completed: Item[];
+}
+
+const MAX_COMPLETED = 5;
+const MAX_ITEM_CHARS = 200;
+
+// Heading and key names per field, tried in order: "Current blockers" is a
+// blockers section and "Current version" a version, not the current task
+const FIELD_NAMES: [Field, RegExp][] = [
+  ["blockers", /\b(blockers?|blocked|impediments?|open issues)\b/i],
+  ["completed", /\b(completed|done|finished|shipped|recent(ly)? (changes|work)|changelog|accomplishments?)\b/i],
+  ["updatedAt", /\b(updated|modified|timestamp)\b|^(date|as of)$/i],
+  ["version", /\b(version|release)\b/i],
+  ["currentTask", /\b(current(ly)?|in progress|working on|focus|active|now|task)\b/i],
+];
+
+const DATE = /\b(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2})?)(Z|[+-]\d{2}:?\d{2})?)?\b/;
+const NOTHING = /^(none|nothing|n\/a|no blockers?|-+)\.?$/i;
+const BULLET = /^\s*(?:[-*+]|\d+[.)])\s+/;
+
+function fieldFor(name: string): Field | null {
+  const key = name.trim().replace(/[_-]+/g, " ");
+  return FIELD_NAMES.find(([, pattern]) => pattern.test(key))?.[0] ?? null;
+}
+
+// "2026-10-29" and "2026-10-29 14:05" are read as UTC
+function toIso(text: string): string | null {
+  const m = text.match(DATE);
+  if (!m) return null;
+  const time = Date.parse(`${m[1]}T${m[2] ?? "00:00"}${m[2] && m[2].length === 5 ? ":00" : ""}${m[3] ?? "Z"}`);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+// Also accepts written dates ("October 3, 2026") for explicit update times
+function toTimestamp(text: string): string | null {
+  const iso = toIso(text);
+  if (iso || !/\b(19|20)\d{2}\b/.test(text)) return iso;
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function clean(line: string): string {
+  const text = line
+    .replace(BULLET, "")
+    .replace(/^\[[ xX]\]\s*/, "")
+    .replace(/\*\*|__|`/g, "")
+    .trim();
+  return text.length > MAX_ITEM_CHARS ? `${text.slice(0, MAX_ITEM_CHARS - 1).trimEnd()}…` : text;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
+
+// Simple `key: value` and `key:` + `- item` front-matter; nested YAML is ignored
+function splitFrontMatter(content: string): { entries: [string, string[]][]; body: string } {
+  const m = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!m) return { entries: [], body: content };
+  const entries: [string, string[]][] = [];
+  for (const line of m[1].split(/\r?\n/)) {
+    const pair = line.match(/^([A-Za-z][\w -]*):\s*(.*)$/);
+    if (pair) {
+      const value = pair[2].trim();
+      const list = value.startsWith("[") && value.endsWith("]")
+        ? value.slice(1, -1).split(",").map(unquote).filter(Boolean)
+        : value ? [unquote(value)] : [];
+      entries.push([pair[1], list]);
+    } else if (entries.length > 0 && /^\s+-\s+/.test(line)) {
+      entries[entries.length - 1][1].push(unquote(line.replace(/^\s+-\s+/, "")));
+    }
+  }
+  return { entries, body: content.slice(m[0].length) };
+}
+
+/**
+ * Reads one file. Fields come from front-matter keys, `Key: value` lines
+ * (bold or bulleted too) and the sections under matching headings. Headings
+ * or bullets that start with a date are progress entries: their text, or the
+ * bullets under them, count as completed items of that date.
+ */
+function parseFile(content: string): ParsedFile {
+  const parsed: ParsedFile = { currentTask: null, version: null, updatedAt: null, blockers: [], completed: [] };
+  const setField = (field: Field, value: string, date: string | null = null) => {
+    const text = clean(value);
+    if (!text) return;
+    if (field === "blockers") parsed.blockers.push(text);
+    else if (field === "completed") parsed.completed.push({ text, date: date ?? toIso(text) });
+    else if (field === "updatedAt") parsed.updatedAt ??= toTimestamp(text);
+    else parsed[field] ??= text;
+  };
+
+  const { entries, body } = splitFrontMatter(content);
+  for (const [key, values] of entries) {
+    const field = fieldFor(key);
+    if (field) values.forEach((v) => setField(field, v));
+  }
+
+  let section: Field | null = null;
+  let entryDate: string | null = null;
+  let inFence = false;
+  for (const raw of body.replace(/<!--[\s\S]*?-->/g, "").split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(raw)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence || !raw.trim()) continue;
+
+    const heading = raw.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      const title = heading[1].replace(/\*\*|__|`/g, "");
+      const date = toIso(title);
+      if (date) {
+        section = "completed";
+        entryDate = date;
+        const rest = title.replace(DATE, "").replace(/\(\s*\)/g, "").replace(/^[\s:—–|-]+|[\s:—–|-]+$/g, "");
+        // "2026-10-29 Done" is only a label; "2026-10-29 Shipped the cache" is an item
+        if (rest && (!fieldFor(rest) || rest.split(/\s+/).length > 2)) setField("completed", rest, date);
+      } else {
+        section = fieldFor(title);
+        entryDate = null;
+      }
+      continue;
+    }
+
+    const line = raw.replace(/\*\*|__/g, "");
+    const checkbox = line.match(/^\s*[-*+]\s+\[([ xX])\]\s+(.*)$/);
+    if (checkbox) {
+      if (checkbox[1] !== " ") setField("completed", checkbox[2], entryDate);
+      else if (section === "currentTask") setField("currentTask", checkbox[2]);
+      continue;
+    }
+
+    const pair = line.match(/^\s*(?:[-*+]\s+)?([A-Za-z][A-Za-z0-9 _/-]{0,40}):\s*(.*)$/);
+    const pairField = pair && !(BULLET.test(line) && (section === "blockers" || section === "completed")) ? fieldFor(pair[1]) : null;
+    if (pair && pairField) {
+      if (pair[2].trim()) {
+        setField(pairField, pair[2]);
+      } else {
+        section = pairField;
+        entryDate = null;
+      }
+      continue;
+    }
+
+    const text = clean(line);
+    if (BULLET.test(line) && text.match(DATE)?.index === 0) {
+      setField("completed", text.replace(DATE, "").replace(/^[\s:—–|-]+/, ""), toIso(text));
+    } else if (section === "blockers" || section === "completed") {
+      setField(section, line, entryDate);
+    } else if (section) {
+      setField(section, line);
+    }
+  }
+  return parsed;
+}
+
+function newest(dates: (string | null)[]): string | null {
+  return dates.reduce<string | null>((max, d) => (d && (!max || d > max) ? d : max), null);
+}
+
+/**
+ * Structured state of an agent from its status files and progress logs.
+ * Status files are read first, so their current task and version win; the
+ * completed items are the newest dated ones across all files, and `updatedAt`
+ * is the newest date any of them records. Returns null when nothing was recognised.
+ */
+export function parseAgentState(files: StateFile[]): AgentState | null {
+  const ordered = [...files].sort((a, b) => Number(a.type !== "status") - Number(b.type !== "status"));
+  const parsed = ordered.map((f) => parseFile(f.content));
+
+  const completed = parsed.flatMap((p) => p.completed);
+  // Dated items newest first, then undated ones in file order
+  completed.sort((a, b) => (b.date ?? "").localeCompare(a.date ?? ""));
+  const blockers = Array.from(new Set(parsed.flatMap((p) => p.blockers))).filter((b) => !NOTHING.test(b));
+
+  const state: AgentState = {
+    currentTask: parsed.find((p) => p.currentTask)?.currentTask ?? null,
+    version: parsed.find((p) => p.version)?.version ?? null,
+    blockers,
+    completed: Array.from(new Set(completed.map((c) => c.text))).slice(0, MAX_COMPLETED),
+    updatedAt: newest([...parsed.map((p) => p.updatedAt), ...completed.map((c) => c.date)]),
+    sources: ordered.map((f) => f.path),
+  };
+  const found = state.currentTask || state.version || state.updatedAt || state.blockers.length > 0 || state.completed.length > 0;
+  return found ? state : null;
+}